@@ -8,9 +8,20 @@
  * @module
  */
 
+import type * as assets from "../assets.js";
+import type * as crons from "../crons.js";
+import type * as diagrams from "../diagrams.js";
+import type * as hmac from "../hmac.js";
 import type * as http from "../http.js";
 import type * as journal from "../journal.js";
+import type * as preview from "../preview.js";
+import type * as previewToken from "../previewToken.js";
+import type * as redirects from "../redirects.js";
+import type * as revisions from "../revisions.js";
+import type * as searchText from "../searchText.js";
+import type * as series from "../series.js";
 import type * as staticHosting from "../staticHosting.js";
+import type * as syncSignature from "../syncSignature.js";
 
 import type {
   ApiFromModules,
@@ -19,9 +30,20 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  assets: typeof assets;
+  crons: typeof crons;
+  diagrams: typeof diagrams;
+  hmac: typeof hmac;
   http: typeof http;
   journal: typeof journal;
+  preview: typeof preview;
+  previewToken: typeof previewToken;
+  redirects: typeof redirects;
+  revisions: typeof revisions;
+  searchText: typeof searchText;
+  series: typeof series;
   staticHosting: typeof staticHosting;
+  syncSignature: typeof syncSignature;
 }>;
 
 /**
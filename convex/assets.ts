@@ -0,0 +1,64 @@
+import { internalMutation, internalQuery } from "./_generated/server";
+import { v } from "convex/values";
+
+export const listForEntry = internalQuery({
+	args: { slug: v.string() },
+	handler: async (ctx, args) => {
+		const assets = await ctx.db
+			.query("journalAssets")
+			.withIndex("by_slug", (q) => q.eq("slug", args.slug))
+			.collect();
+		return assets.map((a) => ({ path: a.path, hash: a.hash, url: a.url }));
+	},
+});
+
+export const upsert = internalMutation({
+	args: {
+		slug: v.string(),
+		path: v.string(),
+		storageId: v.id("_storage"),
+		contentType: v.string(),
+		size: v.number(),
+		hash: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const existing = await ctx.db
+			.query("journalAssets")
+			.withIndex("by_slug", (q) => q.eq("slug", args.slug).eq("path", args.path))
+			.first();
+
+		const url = await ctx.storage.getUrl(args.storageId);
+		if (!url) throw new Error("Failed to get asset URL");
+
+		const data = { ...args, url };
+
+		if (existing) {
+			if (existing.storageId !== args.storageId) {
+				await ctx.storage.delete(existing.storageId);
+			}
+			await ctx.db.patch(existing._id, data);
+		} else {
+			await ctx.db.insert("journalAssets", data);
+		}
+		return { url };
+	},
+});
+
+// Delete an entry's assets that are no longer referenced
+export const prune = internalMutation({
+	args: { slug: v.string(), keep: v.array(v.string()) },
+	handler: async (ctx, args) => {
+		const keep = new Set(args.keep);
+		const assets = await ctx.db
+			.query("journalAssets")
+			.withIndex("by_slug", (q) => q.eq("slug", args.slug))
+			.collect();
+
+		const stale = assets.filter((a) => !keep.has(a.path));
+		for (const asset of stale) {
+			await ctx.storage.delete(asset.storageId);
+			await ctx.db.delete(asset._id);
+		}
+		return { deleted: stale.map((a) => a.path) };
+	},
+});
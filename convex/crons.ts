@@ -0,0 +1,20 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+crons.daily(
+	"purge journal trash",
+	{ hourUTC: 4, minuteUTC: 0 },
+	internal.journal.purgeTrash,
+	{}
+);
+
+crons.interval(
+	"publish scheduled entries",
+	{ minutes: 5 },
+	internal.journal.publishScheduled,
+	{}
+);
+
+export default crons;
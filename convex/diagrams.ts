@@ -0,0 +1,48 @@
+import { internalMutation, internalQuery } from "./_generated/server";
+import { v } from "convex/values";
+
+// Pre-rendered Mermaid SVGs, shared by every entry that contains the same
+// diagram source (keyed by diagramHash from src/lib/utils/markdown.ts)
+
+export const missing = internalQuery({
+	args: { hashes: v.array(v.string()) },
+	handler: async (ctx, args) => {
+		const missing: string[] = [];
+		for (const hash of args.hashes) {
+			const diagram = await ctx.db
+				.query("diagrams")
+				.withIndex("by_hash", (q) => q.eq("hash", hash))
+				.first();
+			if (!diagram) missing.push(hash);
+		}
+		return missing;
+	},
+});
+
+export const upsert = internalMutation({
+	args: {
+		hash: v.string(),
+		storageId: v.id("_storage"),
+		width: v.number(),
+		height: v.number(),
+	},
+	handler: async (ctx, args) => {
+		const existing = await ctx.db
+			.query("diagrams")
+			.withIndex("by_hash", (q) => q.eq("hash", args.hash))
+			.first();
+
+		const url = await ctx.storage.getUrl(args.storageId);
+		if (!url) throw new Error("Failed to get diagram URL");
+
+		if (existing) {
+			if (existing.storageId !== args.storageId) {
+				await ctx.storage.delete(existing.storageId);
+			}
+			await ctx.db.patch(existing._id, { ...args, url });
+		} else {
+			await ctx.db.insert("diagrams", { ...args, url });
+		}
+		return { url };
+	},
+});
@@ -0,0 +1,29 @@
+// HMAC-SHA256 with plain Web Crypto, so the Convex runtime and the Bun
+// scripts sign and verify with the same code
+
+const encoder = new TextEncoder();
+
+/** Base64url HMAC-SHA256 of the payload */
+export async function hmacSha256(secret: string, payload: string): Promise<string> {
+	const key = await crypto.subtle.importKey(
+		"raw",
+		encoder.encode(secret),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"]
+	);
+	const signature = new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(payload)));
+	return btoa(String.fromCharCode(...signature))
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+export function timingSafeEqual(a: string, b: string): boolean {
+	if (a.length !== b.length) return false;
+	let difference = 0;
+	for (let i = 0; i < a.length; i++) {
+		difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+	}
+	return difference === 0;
+}
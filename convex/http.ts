@@ -1,31 +1,53 @@
-import { httpRouter } from "convex/server";
+import { getFunctionName, httpRouter, type FunctionReference } from "convex/server";
 import { getMimeType } from "@convex-dev/self-hosting";
-import { components } from "./_generated/api";
-import { httpAction } from "./_generated/server";
+import { components, internal } from "./_generated/api";
+import { httpAction, type ActionCtx } from "./_generated/server";
+import { SIGNATURE_HEADER, SYNC_PATH, TIMESTAMP_HEADER, verifySyncRequest } from "./syncSignature";
 
 const http = httpRouter();
 
 /**
  * Custom static file handler with directory URL resolution.
  *
- * Tries in order:
+ * Paths with a trailing slash redirect (308) to the path without it. Then
+ * tries in order:
  *   1. Exact path match
  *   2. /path/index.html (directory index)
  *   3. /path.html (flat file)
- *   4. 404
+ *   4. A stored redirect (convex/redirects.ts)
+ *   5. 404, with the built 404.html
+ *
+ * /preview/<token> serves the /preview page, which reads the token from
+ * the URL; those responses are never cached or indexed. /journal/<slug>.pdf
+ * serves the entry's PDF (see servePdf).
+ *
+ * Also answers HEAD (routed here by Convex), single byte ranges with
+ * If-Range, and serves pre-compressed .br/.gz variants by Accept-Encoding.
  */
 const serveStaticFile = httpAction(async (ctx, request) => {
 	const url = new URL(request.url);
 	let path = url.pathname;
 
+	// One URL per page: /journal/ redirects to /journal. Leading slashes
+	// collapse too, or //evil.example/ would redirect off-site.
+	if (path.length > 1 && path.endsWith("/")) {
+		return redirect(`/${path.replace(/^\/+|\/+$/g, "")}${url.search}`, 308);
+	}
+
+	// Entry PDFs under a stable URL; ?download saves instead of opening
+	const pdf = path.match(/^\/journal\/([a-z0-9]+(?:-[a-z0-9]+)*)\.pdf$/);
+	if (pdf) {
+		return await servePdf(ctx, request, pdf[1], url.searchParams.has("download"));
+	}
+
 	// Normalize root
 	if (path === "" || path === "/") {
 		path = "/index.html";
 	}
 
-	// Strip trailing slash (e.g., /journal/ → /journal) so resolution works
-	if (path !== "/index.html" && path.endsWith("/")) {
-		path = path.slice(0, -1);
+	const isPreview = path.startsWith("/preview/");
+	if (isPreview) {
+		path = "/preview";
 	}
 
 	// Helper to look up an asset from the self-hosting component
@@ -48,67 +70,326 @@ const serveStaticFile = httpAction(async (ctx, request) => {
 		}
 	}
 
-	// 404
 	if (!asset) {
-		return new Response("Not Found", {
-			status: 404,
+		// Renamed entries and other stored redirects
+		const target = await ctx.runQuery(internal.redirects.resolve, { path });
+		if (target) {
+			return redirect(`${target.to}${url.search}`, target.status);
+		}
+		return await notFound(ctx, request);
+	}
+
+	const contentType = asset.contentType || getMimeType(path);
+	const compressible = isCompressible(contentType);
+
+	// adapter-static writes .br and .gz next to each text asset; serve one
+	// when the client accepts it. Range requests get the identity encoding
+	// so byte offsets refer to the file itself.
+	let encoding: string | null = null;
+	let served = asset;
+	if (compressible && !request.headers.has("Range")) {
+		for (const candidate of acceptedEncodings(request.headers.get("Accept-Encoding"))) {
+			const variant = await getAsset(`${asset.path}${ENCODING_EXTENSIONS[candidate]}`);
+			if (variant?.storageId) {
+				encoding = candidate;
+				served = variant;
+				break;
+			}
+		}
+	}
+
+	// Serve from Convex storage
+	if (!served.storageId) {
+		return new Response("Storage error", {
+			status: 500,
 			headers: { "Content-Type": "text/plain" },
 		});
 	}
 
-	// ETag / conditional request
-	const etag = `"${asset.storageId}"`;
-	const ifNoneMatch = request.headers.get("If-None-Match");
-	if (ifNoneMatch === etag) {
-		return new Response(null, {
-			status: 304,
-			headers: {
-				ETag: etag,
+	const etag = `"${served.storageId}"`;
+	const headers: Record<string, string> = isPreview
+		? {
+				"Content-Type": contentType,
+				"Cache-Control": "private, no-store",
+				"X-Robots-Tag": "noindex, nofollow",
+				// Keep the token out of Referer headers sent to other sites
+				"Referrer-Policy": "no-referrer",
+				"X-Content-Type-Options": "nosniff",
+			}
+		: {
+				"Content-Type": contentType,
 				"Cache-Control": isHashedAsset(path)
 					? "public, max-age=31536000, immutable"
 					: "public, max-age=0, must-revalidate",
+				ETag: etag,
+				"X-Content-Type-Options": "nosniff",
+			};
+	if (compressible) headers["Vary"] = "Accept-Encoding";
+	if (encoding) headers["Content-Encoding"] = encoding;
+
+	return await sendStoredFile(ctx, request, served.storageId, headers);
+});
+
+function redirect(location: string, status: 301 | 308): Response {
+	return new Response(null, {
+		status,
+		headers: { Location: location, "Cache-Control": "public, max-age=3600" },
+	});
+}
+
+function hasFileExtension(path: string): boolean {
+	const lastSegment = path.split("/").pop() || "";
+	return lastSegment.includes(".") && !lastSegment.startsWith(".");
+}
+
+function isHashedAsset(path: string): boolean {
+	return /[-.][\dA-Za-z_]{6,12}\.[a-z]+$/.test(path);
+}
+
+// Preferred first; the extensions adapter-static's precompress writes
+const ENCODING_EXTENSIONS: Record<string, string> = { br: ".br", gzip: ".gz" };
+
+function isCompressible(contentType: string): boolean {
+	return /^text\/|^application\/(?:javascript|json|xml|manifest\+json|.*\+xml)|^image\/svg\+xml/.test(contentType);
+}
+
+/** Encodings we have variants for that Accept-Encoding allows (q > 0), preferred first */
+function acceptedEncodings(acceptEncoding: string | null): string[] {
+	const quality = new Map<string, number>();
+	for (const part of (acceptEncoding ?? "").split(",")) {
+		const [name, ...params] = part.trim().toLowerCase().split(";");
+		const q = params.map((p) => p.trim()).find((p) => p.startsWith("q="));
+		quality.set(name, q ? Number(q.slice(2)) : 1);
+	}
+	return Object.keys(ENCODING_EXTENSIONS).filter((name) => (quality.get(name) ?? quality.get("*") ?? 0) > 0);
+}
+
+/** If-None-Match: "*" or a list of tags, compared weakly (W/ ignored) */
+function etagMatches(ifNoneMatch: string | null, etag: string): boolean {
+	if (!ifNoneMatch) return false;
+	if (ifNoneMatch.trim() === "*") return true;
+	return ifNoneMatch.split(",").some((tag) => tag.trim().replace(/^W\//, "") === etag);
+}
+
+/**
+ * A single "bytes=" range, clamped to the file. Returns null to ignore the
+ * header (malformed or several ranges: the whole file is sent instead).
+ */
+function parseRange(header: string, size: number): { start: number; end: number } | "unsatisfiable" | null {
+	const match = header.trim().match(/^bytes=(\d*)-(\d*)$/);
+	if (!match || (!match[1] && !match[2])) return null;
+
+	if (!match[1]) {
+		// Suffix range: the last n bytes
+		const length = Number(match[2]);
+		if (length === 0 || size === 0) return "unsatisfiable";
+		return { start: Math.max(0, size - length), end: size - 1 };
+	}
+
+	const start = Number(match[1]);
+	const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+	if (match[2] && Number(match[2]) < start) return null;
+	if (start >= size) return "unsatisfiable";
+	return { start, end };
+}
+
+/**
+ * The current PDF of a published entry. The URL stays the same across
+ * re-syncs; the ETag is the storage ID, so it changes with the file.
+ * Old slugs redirect to the PDF of the entry that lists them as aliases.
+ */
+async function servePdf(ctx: ActionCtx, request: Request, slug: string, download: boolean): Promise<Response> {
+	const pdf = await ctx.runQuery(internal.journal.getPdf, { slug });
+	if (!pdf) {
+		const target = await ctx.runQuery(internal.redirects.resolve, { path: `/journal/${slug}` });
+		if (target && /^\/journal\/[^/]+$/.test(target.to)) {
+			return redirect(`${target.to}.pdf${new URL(request.url).search}`, target.status);
+		}
+		return await notFound(ctx, request);
+	}
+
+	// Plain ASCII name for old clients, the title for the rest (RFC 6266)
+	const title =
+		pdf.title
+			.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, " ")
+			.replace(/\s+/g, " ")
+			.trim() || pdf.slug;
+	const filename = encodeURIComponent(`${title}.pdf`).replace(
+		/['()*]/g,
+		(c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+	);
+	return await sendStoredFile(ctx, request, pdf.storageId, {
+		"Content-Type": "application/pdf",
+		"Content-Disposition": `${download ? "attachment" : "inline"}; filename="${pdf.slug}.pdf"; filename*=UTF-8''${filename}`,
+		"Cache-Control": "public, max-age=0, must-revalidate",
+		ETag: `"${pdf.storageId}"`,
+		"X-Content-Type-Options": "nosniff",
+	});
+}
+
+// 404, with the site's own page when the build has one
+async function notFound(ctx: ActionCtx, request: Request): Promise<Response> {
+	const isHead = request.method === "HEAD";
+	const page = await ctx.runQuery(components.selfHosting.lib.getByPath, { path: "/404.html" });
+	const blob = page?.storageId ? await ctx.storage.get(page.storageId) : null;
+	if (blob) {
+		return new Response(isHead ? null : blob, {
+			status: 404,
+			headers: {
+				"Content-Type": "text/html; charset=utf-8",
+				"Cache-Control": "public, max-age=0, must-revalidate",
+				"X-Content-Type-Options": "nosniff",
 			},
 		});
 	}
+	return new Response(isHead ? null : "Not Found", {
+		status: 404,
+		headers: { "Content-Type": "text/plain" },
+	});
+}
 
-	// Serve from Convex storage
-	if (!asset.storageId) {
-		return new Response("Storage error", {
-			status: 500,
-			headers: { "Content-Type": "text/plain" },
+/**
+ * A file from Convex storage with the given headers, honouring
+ * If-None-Match (when headers has an ETag), single byte ranges with
+ * If-Range, and HEAD.
+ */
+async function sendStoredFile(
+	ctx: ActionCtx,
+	request: Request,
+	storageId: string,
+	headers: Record<string, string>
+): Promise<Response> {
+	const etag = headers["ETag"];
+	const isHead = request.method === "HEAD";
+
+	// ETag / conditional request
+	if (etag && etagMatches(request.headers.get("If-None-Match"), etag)) {
+		const { "Cache-Control": cacheControl, Vary: vary } = headers;
+		return new Response(null, {
+			status: 304,
+			headers: { ETag: etag, "Cache-Control": cacheControl, ...(vary && { Vary: vary }) },
 		});
 	}
-	const blob = await ctx.storage.get(asset.storageId);
+
+	const blob = await ctx.storage.get(storageId);
 	if (!blob) {
 		return new Response("Storage error", {
 			status: 500,
 			headers: { "Content-Type": "text/plain" },
 		});
 	}
+	headers = { ...headers, "Accept-Ranges": "bytes" };
 
-	const cacheControl = isHashedAsset(path)
-		? "public, max-age=31536000, immutable"
-		: "public, max-age=0, must-revalidate";
+	// Byte ranges (PDF viewers load progressively). If-Range falls back to
+	// the whole file when the client's copy is stale.
+	const ifRange = request.headers.get("If-Range");
+	const rangeHeader = request.headers.get("Range");
+	const range = rangeHeader && (!ifRange || ifRange === etag) ? parseRange(rangeHeader, blob.size) : null;
+
+	if (range === "unsatisfiable") {
+		return new Response(null, {
+			status: 416,
+			headers: { ...headers, "Content-Range": `bytes */${blob.size}` },
+		});
+	}
+	if (range) {
+		const { start, end } = range;
+		return new Response(isHead ? null : blob.slice(start, end + 1), {
+			status: 206,
+			headers: {
+				...headers,
+				"Content-Range": `bytes ${start}-${end}/${blob.size}`,
+				"Content-Length": String(end - start + 1),
+			},
+		});
+	}
 
-	return new Response(blob, {
+	return new Response(isHead ? null : blob, {
 		status: 200,
-		headers: {
-			"Content-Type": asset.contentType || getMimeType(path),
-			"Cache-Control": cacheControl,
-			ETag: etag,
-			"X-Content-Type-Options": "nosniff",
-		},
+		headers: { ...headers, "Content-Length": String(blob.size) },
 	});
-});
-
-function hasFileExtension(path: string): boolean {
-	const lastSegment = path.split("/").pop() || "";
-	return lastSegment.includes(".") && !lastSegment.startsWith(".");
 }
 
-function isHashedAsset(path: string): boolean {
-	return /[-.][\dA-Za-z_]{6,12}\.[a-z]+$/.test(path);
-}
+// What scripts/sync.ts, trash.ts and preview.ts call. They are internal
+// (the reads include drafts), reachable only through the signed /api/sync
+// endpoint below.
+const syncQueries = new Map<string, FunctionReference<"query", "internal">>(
+	[
+		internal.journal.listSyncState,
+		internal.journal.listTrash,
+		internal.assets.listForEntry,
+		internal.diagrams.missing,
+	].map((fn) => [getFunctionName(fn), fn])
+);
+
+const syncMutations = new Map<string, FunctionReference<"mutation", "internal">>(
+	[
+		internal.journal.generateUploadUrl,
+		internal.journal.upsert,
+		internal.journal.remove,
+		internal.journal.restore,
+		internal.assets.upsert,
+		internal.assets.prune,
+		internal.diagrams.upsert,
+	].map((fn) => [getFunctionName(fn), fn])
+);
+
+/**
+ * Runs one sync query or mutation: POST { name, args } signed with
+ * SYNC_SECRET (see syncSignature.ts). Responds with the function's result
+ * as JSON. Rejected requests are logged with the reason and the caller's
+ * address.
+ */
+const runSyncFunction = httpAction(async (ctx, request) => {
+	const secret = process.env.SYNC_SECRET;
+	if (!secret) {
+		console.error("Sync request refused: SYNC_SECRET is not set on this deployment");
+		return Response.json({ error: "Sync is not configured" }, { status: 503 });
+	}
+
+	const body = await request.text();
+	const rejection = await verifySyncRequest(secret, {
+		timestamp: request.headers.get(TIMESTAMP_HEADER),
+		signature: request.headers.get(SIGNATURE_HEADER),
+		body,
+	});
+	if (rejection) {
+		console.warn(
+			`Sync request rejected (${rejection}) from ${request.headers.get("X-Forwarded-For") ?? "unknown address"}`
+		);
+		return Response.json({ error: "Unauthorized" }, { status: 401 });
+	}
+
+	let name: unknown;
+	let args: unknown;
+	try {
+		({ name, args } = JSON.parse(body));
+	} catch {
+		return Response.json({ error: "Body must be JSON" }, { status: 400 });
+	}
+	const query = typeof name === "string" ? syncQueries.get(name) : undefined;
+	const mutation = typeof name === "string" ? syncMutations.get(name) : undefined;
+	if ((!query && !mutation) || typeof args !== "object" || args === null) {
+		console.warn(`Sync request rejected (unknown function ${JSON.stringify(name)})`);
+		return Response.json({ error: "Unknown function" }, { status: 400 });
+	}
+
+	try {
+		const result = query
+			? await ctx.runQuery(query, args as Record<string, unknown>)
+			: await ctx.runMutation(mutation!, args as Record<string, unknown>);
+		return Response.json({ result: result ?? null });
+	} catch (error) {
+		console.error(`Sync function ${name} failed:`, error);
+		return Response.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+	}
+});
+
+http.route({
+	path: SYNC_PATH,
+	method: "POST",
+	handler: runSyncFunction,
+});
 
 // Catch-all route for all GET requests
 http.route({
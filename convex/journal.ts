@@ -1,30 +1,52 @@
-import { mutation, query } from "./_generated/server";
+import { internalAction, internalMutation, internalQuery, query, type MutationCtx, type QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { paginationOptsValidator } from "convex/server";
 import { v } from "convex/values";
+import { reference } from "./schema";
+import { seriesSlug } from "./series";
+import { setAliases } from "./redirects";
+import { buildSnippet, searchableText, searchTerms } from "./searchText";
 
-export const generateUploadUrl = mutation({
+// Soft-deleted entries stay restorable for this long before purgeTrash
+// removes them and their files for good
+const TRASH_RETENTION_DAYS = 30;
+
+const SEARCH_LIMIT = 20;
+
+export const generateUploadUrl = internalMutation({
 	args: {},
 	handler: async (ctx) => {
 		return await ctx.storage.generateUploadUrl();
 	},
 });
 
-export const upsert = mutation({
+export const upsert = internalMutation({
 	args: {
 		slug: v.string(),
 		title: v.string(),
 		description: v.optional(v.string()),
 		content: v.string(), // Markdown content
 		pdfStorageId: v.id("_storage"),
+		thumbnailStorageId: v.optional(v.id("_storage")),
 		publishDate: v.string(),
 		published: v.boolean(),
+		publishAt: v.optional(v.string()),
 		featured: v.optional(v.boolean()),
 		tags: v.optional(v.array(v.string())),
 		category: v.optional(v.string()),
+		series: v.optional(v.string()),
+		seriesOrder: v.optional(v.number()),
+		aliases: v.optional(v.array(v.string())),
 		pageCount: v.optional(v.number()),
 		fileSize: v.optional(v.number()),
 		contentHash: v.optional(v.string()),
+		diagrams: v.optional(v.array(v.string())),
+		references: v.optional(v.array(reference)),
+		links: v.optional(v.array(v.string())),
+		commit: v.optional(v.string()),
 	},
-	handler: async (ctx, args) => {
+	handler: async (ctx, { commit, ...args }) => {
 		const existing = await ctx.db
 			.query("journal")
 			.withIndex("by_slug", (q) => q.eq("slug", args.slug))
@@ -33,18 +55,51 @@ export const upsert = mutation({
 		const pdfUrl = await ctx.storage.getUrl(args.pdfStorageId);
 		if (!pdfUrl) throw new Error("Failed to get PDF URL");
 
+		const thumbnailUrl = args.thumbnailStorageId
+			? ((await ctx.storage.getUrl(args.thumbnailStorageId)) ?? undefined)
+			: undefined;
+
+		const now = new Date().toISOString();
+		const contentChanged = !existing || existing.content !== args.content;
+		if (contentChanged) {
+			await ctx.db.insert("journalRevisions", {
+				slug: args.slug,
+				title: args.title,
+				content: args.content,
+				contentHash: args.contentHash,
+				commit,
+				createdAt: now,
+			});
+		}
+
 		const data = {
 			...args,
 			pdfUrl,
-			lastSyncedAt: new Date().toISOString(),
+			// Explicit so an entry synced without a thumbnail drops the old one
+			thumbnailStorageId: args.thumbnailStorageId,
+			thumbnailUrl,
+			publishAt: args.publishAt,
+			series: args.series,
+			seriesSlug: args.series ? seriesSlug(args.series) : undefined,
+			seriesOrder: args.seriesOrder,
+			aliases: args.aliases,
+			lastSyncedAt: now,
+			updatedAt: existing && contentChanged ? now : existing?.updatedAt,
+			searchText: searchableText(args),
 		};
 
+		await setAliases(ctx, args.slug, args.aliases ?? []);
+
 		if (existing) {
-			// Delete old PDF if storage ID changed
+			// Delete old PDF and thumbnail if storage IDs changed
 			if (existing.pdfStorageId !== args.pdfStorageId) {
 				await ctx.storage.delete(existing.pdfStorageId);
 			}
-			await ctx.db.patch(existing._id, data);
+			if (existing.thumbnailStorageId && existing.thumbnailStorageId !== args.thumbnailStorageId) {
+				await ctx.storage.delete(existing.thumbnailStorageId);
+			}
+			// Syncing a trashed slug again restores it
+			await ctx.db.patch(existing._id, { ...data, deletedAt: undefined });
 			return { action: "updated" as const, id: existing._id };
 		} else {
 			const id = await ctx.db.insert("journal", data);
@@ -53,7 +108,10 @@ export const upsert = mutation({
 	},
 });
 
-export const remove = mutation({
+// Soft delete: the entry disappears from every query but keeps its PDF
+// and assets until purgeTrash runs after the retention window. Its alias
+// redirects go now (they would lead to a 404); restore puts them back.
+export const remove = internalMutation({
 	args: { slug: v.string() },
 	handler: async (ctx, args) => {
 		const entry = await ctx.db
@@ -61,43 +119,416 @@ export const remove = mutation({
 			.withIndex("by_slug", (q) => q.eq("slug", args.slug))
 			.first();
 
-		if (entry) {
-			await ctx.storage.delete(entry.pdfStorageId);
-			await ctx.db.delete(entry._id);
+		if (entry && !entry.deletedAt) {
+			await ctx.db.patch(entry._id, { deletedAt: new Date().toISOString() });
+			await setAliases(ctx, entry.slug, []);
 			return { action: "deleted" as const, id: entry._id };
 		}
 		return { action: "not_found" as const };
 	},
 });
 
-export const list = query({
-	args: { publishedOnly: v.optional(v.boolean()) },
+export const restore = internalMutation({
+	args: { slug: v.string() },
 	handler: async (ctx, args) => {
-		if (args.publishedOnly) {
-			return await ctx.db
-				.query("journal")
-				.withIndex("by_published", (q) => q.eq("published", true))
-				.order("desc")
-				.collect();
+		const entry = await ctx.db
+			.query("journal")
+			.withIndex("by_slug", (q) => q.eq("slug", args.slug))
+			.first();
+
+		if (entry?.deletedAt) {
+			await ctx.db.patch(entry._id, { deletedAt: undefined });
+			await setAliases(ctx, entry.slug, entry.aliases ?? []);
+			return { action: "restored" as const, id: entry._id };
+		}
+		return { action: "not_found" as const };
+	},
+});
+
+export const listTrash = internalQuery({
+	args: {},
+	handler: async (ctx) => {
+		const entries = await ctx.db.query("journal").collect();
+		return entries
+			.filter((e) => e.deletedAt)
+			.map((e) => ({
+				slug: e.slug,
+				title: e.title,
+				deletedAt: e.deletedAt!,
+				purgeAfter: new Date(
+					Date.parse(e.deletedAt!) + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+				).toISOString(),
+			}));
+	},
+});
+
+export const purgeTrash = internalMutation({
+	args: {},
+	handler: async (ctx) => {
+		const cutoff = Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+		const entries = await ctx.db.query("journal").collect();
+		const expired = entries.filter((e) => e.deletedAt && Date.parse(e.deletedAt) < cutoff);
+
+		for (const entry of expired) {
+			await purgeEntry(ctx, entry);
 		}
-		return await ctx.db.query("journal").order("desc").collect();
+		return { purged: expired.map((e) => e.slug) };
 	},
 });
 
+// Publish drafts whose publishAt has passed, then ask for a rebuild so the
+// static site gains their pages (the journal index already updates live)
+export const publishScheduled = internalMutation({
+	args: {},
+	handler: async (ctx) => {
+		const now = new Date().toISOString();
+		const due = await ctx.db
+			.query("journal")
+			.withIndex("by_schedule", (q) => q.eq("published", false).gt("publishAt", "").lte("publishAt", now))
+			.collect();
+		const toPublish = due.filter((e) => !e.deletedAt);
+
+		for (const entry of toPublish) {
+			await ctx.db.patch(entry._id, { published: true });
+		}
+		const slugs = toPublish.map((e) => e.slug);
+		if (slugs.length > 0) {
+			await ctx.scheduler.runAfter(0, internal.journal.triggerRebuild, { slugs });
+		}
+		return { published: slugs };
+	},
+});
+
+// POSTs to REBUILD_HOOK_URL (e.g. a CI workflow that runs `bun run deploy`)
+export const triggerRebuild = internalAction({
+	args: { slugs: v.array(v.string()) },
+	handler: async (_ctx, args) => {
+		const url = process.env.REBUILD_HOOK_URL;
+		if (!url) {
+			console.log(`Published ${args.slugs.join(", ")}; REBUILD_HOOK_URL is not set, so their pages appear on the next deploy`);
+			return;
+		}
+		const response = await fetch(url, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ reason: "scheduled-publish", slugs: args.slugs }),
+		});
+		if (!response.ok) {
+			throw new Error(`Rebuild hook failed: ${response.status} ${await response.text()}`);
+		}
+	},
+});
+
+async function purgeEntry(ctx: MutationCtx, entry: Doc<"journal">) {
+	const assets = await ctx.db
+		.query("journalAssets")
+		.withIndex("by_slug", (q) => q.eq("slug", entry.slug))
+		.collect();
+	for (const asset of assets) {
+		await ctx.storage.delete(asset.storageId);
+		await ctx.db.delete(asset._id);
+	}
+	const revisions = await ctx.db
+		.query("journalRevisions")
+		.withIndex("by_slug", (q) => q.eq("slug", entry.slug))
+		.collect();
+	for (const revision of revisions) {
+		await ctx.db.delete(revision._id);
+	}
+	await setAliases(ctx, entry.slug, []);
+	await ctx.storage.delete(entry.pdfStorageId);
+	if (entry.thumbnailStorageId) {
+		await ctx.storage.delete(entry.thumbnailStorageId);
+	}
+	await ctx.db.delete(entry._id);
+}
+
+// What index cards need; content and search text stay on the server
+function toSummary(entry: Doc<"journal">) {
+	return {
+		slug: entry.slug,
+		title: entry.title,
+		description: entry.description,
+		publishDate: entry.publishDate,
+		tags: entry.tags,
+		category: entry.category,
+		featured: entry.featured,
+		thumbnailUrl: entry.thumbnailUrl,
+		pageCount: entry.pageCount,
+		series: entry.series,
+		seriesOrder: entry.seriesOrder,
+	};
+}
+
+// Published entries, newest first: what list and the feeds show
+async function publishedEntries(ctx: QueryCtx) {
+	return await ctx.db
+		.query("journal")
+		.withIndex("by_published", (q) => q.eq("published", true))
+		.order("desc")
+		.filter((q) => q.eq(q.field("deletedAt"), undefined))
+		.collect();
+}
+
+export const list = query({
+	args: {},
+	handler: async (ctx) => {
+		return (await publishedEntries(ctx)).map(toSummary);
+	},
+});
+
+// Published entries, newest first, a page at a time. Category and year use
+// the by_category / by_published ranges; featured is a filter. Tags are an
+// array the database cannot filter on, so they are applied to each page,
+// which can come back shorter than numItems (isDone still says when to stop).
+export const listPage = query({
+	args: {
+		paginationOpts: paginationOptsValidator,
+		category: v.optional(v.string()),
+		tags: v.optional(v.array(v.string())),
+		year: v.optional(v.number()),
+		featured: v.optional(v.boolean()),
+	},
+	handler: async (ctx, args) => {
+		const from = args.year ? `${args.year}-01-01` : null;
+		const until = args.year ? `${args.year + 1}-01-01` : null;
+
+		const indexed = args.category
+			? ctx.db.query("journal").withIndex("by_category", (q) => {
+					const category = q.eq("category", args.category);
+					return from && until ? category.gte("publishDate", from).lt("publishDate", until) : category;
+				})
+			: ctx.db.query("journal").withIndex("by_published", (q) => {
+					const published = q.eq("published", true);
+					return from && until ? published.gte("publishDate", from).lt("publishDate", until) : published;
+				});
+
+		const result = await indexed
+			.order("desc")
+			.filter((q) => {
+				const visible = q.and(q.eq(q.field("published"), true), q.eq(q.field("deletedAt"), undefined));
+				return args.featured === undefined ? visible : q.and(visible, q.eq(q.field("featured"), args.featured));
+			})
+			.paginate(args.paginationOpts);
+
+		const tags = args.tags ?? [];
+		return {
+			...result,
+			page: result.page.filter((e) => tags.every((tag) => e.tags?.includes(tag))).map(toSummary),
+		};
+	},
+});
+
+// Everything the RSS, Atom and JSON feeds need to render each entry in full
+export const feed = query({
+	args: {},
+	handler: async (ctx) => {
+		const entries = await publishedEntries(ctx);
+		return await Promise.all(
+			entries.map(async (entry) => {
+				const page = await loadEntryPage(ctx, entry);
+				return {
+					...toSummary(entry),
+					updatedAt: entry.updatedAt,
+					content: entry.content,
+					fileSize: entry.fileSize,
+					references: entry.references,
+					diagramImages: page.diagramImages,
+					linkTitles: page.linkTitles,
+				};
+			})
+		);
+	},
+});
+
+// Filter options for the journal index: every tag, category and year in use
+export const listFacets = query({
+	args: {},
+	handler: async (ctx) => {
+		const entries = await publishedEntries(ctx);
+		return {
+			tags: [...new Set(entries.flatMap((e) => e.tags ?? []))].sort(),
+			categories: [...new Set(entries.flatMap((e) => (e.category ? [e.category] : [])))].sort(),
+			years: [...new Set(entries.map((e) => Number(e.publishDate.slice(0, 4))))].sort((a, b) => b - a),
+		};
+	},
+});
+
+// Drafts are only readable through a preview token (see preview.ts)
 export const getBySlug = query({
 	args: { slug: v.string() },
 	handler: async (ctx, args) => {
-		return await ctx.db
+		const entry = await ctx.db
 			.query("journal")
 			.withIndex("by_slug", (q) => q.eq("slug", args.slug))
 			.first();
+		if (!entry || entry.deletedAt || !entry.published) return null;
+
+		return await loadEntryPage(ctx, entry);
 	},
 });
 
-export const listSlugs = query({
+// The stored PDF of a published entry, for the /journal/<slug>.pdf route
+export const getPdf = internalQuery({
+	args: { slug: v.string() },
+	handler: async (ctx, args) => {
+		const entry = await ctx.db
+			.query("journal")
+			.withIndex("by_slug", (q) => q.eq("slug", args.slug))
+			.first();
+		if (!entry || entry.deletedAt || !entry.published) return null;
+
+		return { slug: entry.slug, title: entry.title, storageId: entry.pdfStorageId };
+	},
+});
+
+/** An entry with what its page needs to render: diagram images and link titles */
+export async function loadEntryPage(ctx: QueryCtx, entry: Doc<"journal">) {
+	// Pre-rendered Mermaid SVGs by hash; diagrams missing here fall back
+	// to client-side rendering
+	const diagramImages: Record<string, { url: string; width: number; height: number }> = {};
+	for (const hash of entry.diagrams ?? []) {
+		const diagram = await ctx.db
+			.query("diagrams")
+			.withIndex("by_hash", (q) => q.eq("hash", hash))
+			.first();
+		if (diagram) {
+			diagramImages[hash] = { url: diagram.url, width: diagram.width, height: diagram.height };
+		}
+	}
+
+	// Link text for [[slug]] links; trashed targets and drafts keep their slug
+	const linkTitles: Record<string, string> = {};
+	for (const slug of entry.links ?? []) {
+		const target = await ctx.db
+			.query("journal")
+			.withIndex("by_slug", (q) => q.eq("slug", slug))
+			.first();
+		if (target && !target.deletedAt && target.published) {
+			linkTitles[slug] = target.title;
+		}
+	}
+	return { ...entry, diagramImages, linkTitles };
+}
+
+// Published entries whose [[links]] point at this one, newest first
+export const backlinks = query({
+	args: { slug: v.string() },
+	handler: async (ctx, args) => {
+		const entries = await ctx.db
+			.query("journal")
+			.withIndex("by_published", (q) => q.eq("published", true))
+			.order("desc")
+			.filter((q) => q.eq(q.field("deletedAt"), undefined))
+			.collect();
+		return entries
+			.filter((e) => e.slug !== args.slug && e.links?.includes(args.slug))
+			.map((e) => ({
+				slug: e.slug,
+				title: e.title,
+				description: e.description,
+				publishDate: e.publishDate,
+			}));
+	},
+});
+
+// Full-text search over published entries. The last word matches as a
+// prefix, so results update as the user types.
+export const search = query({
+	args: {
+		query: v.string(),
+		tags: v.optional(v.array(v.string())),
+		category: v.optional(v.string()),
+	},
+	handler: async (ctx, args) => {
+		const terms = searchTerms(args.query);
+		if (terms.length === 0) return [];
+
+		// Tags are an array, which search filters cannot match, so read
+		// matches in relevance order until enough of them have every tag
+		const tags = args.tags ?? [];
+		const matches: Doc<"journal">[] = [];
+		const results = ctx.db.query("journal").withSearchIndex("search_text", (q) => {
+			const search = q.search("searchText", args.query).eq("published", true).eq("deletedAt", undefined);
+			return args.category ? search.eq("category", args.category) : search;
+		});
+		for await (const entry of results) {
+			if (!tags.every((tag) => entry.tags?.includes(tag))) continue;
+			matches.push(entry);
+			if (matches.length === SEARCH_LIMIT) break;
+		}
+
+		return matches.map((e) => ({
+			slug: e.slug,
+			title: e.title,
+			publishDate: e.publishDate,
+			tags: e.tags,
+			category: e.category,
+			// Skip the title line; it is shown on its own
+			snippet: buildSnippet((e.searchText ?? "").split("\n").slice(1).join(" "), terms),
+		}));
+	},
+});
+
+// Fills searchText for entries synced before search existed:
+// npx convex run journal:backfillSearchText
+export const backfillSearchText = internalMutation({
 	args: {},
 	handler: async (ctx) => {
 		const entries = await ctx.db.query("journal").collect();
+		let updated = 0;
+		for (const entry of entries) {
+			const searchText = searchableText(entry);
+			if (entry.searchText !== searchText) {
+				await ctx.db.patch(entry._id, { searchText });
+				updated++;
+			}
+		}
+		return { updated };
+	},
+});
+
+export const listSlugs = query({
+	args: {},
+	handler: async (ctx) => {
+		const entries = await publishedEntries(ctx);
 		return entries.map((e) => e.slug);
 	},
 });
+
+// Published entries with when each last changed, for sitemap.xml
+export const listForSitemap = query({
+	args: {},
+	handler: async (ctx) => {
+		const entries = await publishedEntries(ctx);
+		return entries.map((e) => ({
+			slug: e.slug,
+			seriesSlug: e.seriesSlug,
+			lastModified: e.lastSyncedAt ?? e.publishDate,
+		}));
+	},
+});
+
+// Drafts included; scripts read it through the signed /api/sync endpoint
+export const listSyncState = internalQuery({
+	args: {},
+	handler: async (ctx) => {
+		const entries = await ctx.db.query("journal").collect();
+		return entries.map((e) => ({
+			slug: e.slug,
+			contentHash: e.contentHash ?? null,
+			title: e.title,
+			description: e.description,
+			publishDate: e.publishDate,
+			published: e.published,
+			publishAt: e.publishAt,
+			featured: e.featured,
+			tags: e.tags,
+			category: e.category,
+			series: e.series,
+			seriesOrder: e.seriesOrder,
+			aliases: e.aliases,
+			deleted: !!e.deletedAt,
+		}));
+	},
+});
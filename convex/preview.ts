@@ -0,0 +1,32 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { loadEntryPage } from "./journal";
+import { verifyPreviewToken } from "./previewToken";
+
+// Drafts (published: false) are hidden from every public query; a preview
+// token minted by `bun run preview:link` is the only way to read one
+
+// A subscribed query is not re-run as time passes, so the page passes `now`
+// and bumps it when the link expires. It can only move the clock forward:
+// the check uses whichever of the two times is later.
+export const getByToken = query({
+	args: { token: v.string(), now: v.optional(v.number()) },
+	handler: async (ctx, args) => {
+		const secret = process.env.PREVIEW_SECRET;
+		if (!secret) {
+			console.error("Preview refused: PREVIEW_SECRET is not set on this deployment");
+			return null;
+		}
+
+		const preview = await verifyPreviewToken(secret, args.token, Math.max(Date.now(), args.now ?? 0));
+		if (!preview) return null;
+
+		const entry = await ctx.db
+			.query("journal")
+			.withIndex("by_slug", (q) => q.eq("slug", preview.slug))
+			.first();
+		if (!entry || entry.deletedAt) return null;
+
+		return { ...(await loadEntryPage(ctx, entry)), expiresAt: preview.expiresAt };
+	},
+});
@@ -0,0 +1,29 @@
+// Signed, expiring links to unpublished entries: <slug>.<expiry>.<signature>
+//
+// The expiry is Unix seconds in base 36 and the signature an HMAC-SHA256 of
+// "<slug>.<expiry>" keyed with PREVIEW_SECRET, which the preview script and
+// the Convex deployment share.
+
+import { hmacSha256, timingSafeEqual } from "./hmac";
+
+export async function signPreviewToken(secret: string, slug: string, expiresAt: number): Promise<string> {
+	const payload = `${slug}.${Math.floor(expiresAt / 1000).toString(36)}`;
+	return `${payload}.${await hmacSha256(secret, payload)}`;
+}
+
+/** The slug and expiry (ms) of a valid token, or null if forged or expired */
+export async function verifyPreviewToken(
+	secret: string,
+	token: string,
+	now = Date.now()
+): Promise<{ slug: string; expiresAt: number } | null> {
+	const match = token.match(/^([a-z0-9]+(?:-[a-z0-9]+)*)\.([0-9a-z]+)\.([\w-]+)$/);
+	if (!match) return null;
+	const [, slug, expiry, signature] = match;
+
+	const expected = await hmacSha256(secret, `${slug}.${expiry}`);
+	if (!timingSafeEqual(signature, expected)) return null;
+
+	const expiresAt = parseInt(expiry, 36) * 1000;
+	return expiresAt > now ? { slug, expiresAt } : null;
+}
@@ -0,0 +1,53 @@
+import { internalQuery, type MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+
+// Redirects for renamed entries: each `aliases:` slug in an entry's
+// frontmatter sends /journal/<alias> (and pages below it, like /history)
+// to /journal/<slug> with a 301.
+
+/** Replace the alias redirects of an entry; an empty list removes them */
+export async function setAliases(ctx: MutationCtx, slug: string, aliases: string[]) {
+	const existing = await ctx.db
+		.query("redirects")
+		.withIndex("by_slug", (q) => q.eq("slug", slug))
+		.collect();
+	for (const redirect of existing) {
+		await ctx.db.delete(redirect._id);
+	}
+
+	for (const alias of new Set(aliases)) {
+		const from = `/journal/${alias}`;
+		const redirect = { from, to: `/journal/${slug}`, status: 301 as const, slug };
+		// An alias taken over from another entry (or a hand-made redirect) moves here
+		const taken = await ctx.db
+			.query("redirects")
+			.withIndex("by_from", (q) => q.eq("from", from))
+			.first();
+		if (taken) {
+			await ctx.db.replace(taken._id, redirect);
+		} else {
+			await ctx.db.insert("redirects", redirect);
+		}
+	}
+}
+
+// Where a path that matched no page should go, if anywhere
+export const resolve = internalQuery({
+	args: { path: v.string() },
+	handler: async (ctx, args) => {
+		const find = (from: string) =>
+			ctx.db
+				.query("redirects")
+				.withIndex("by_from", (q) => q.eq("from", from))
+				.first();
+
+		const exact = await find(args.path);
+		if (exact) return { to: exact.to, status: exact.status };
+
+		// /journal/<alias>/history → /journal/<slug>/history
+		const match = args.path.match(/^(\/journal\/[^/]+)(\/.+)$/);
+		const parent = match ? await find(match[1]) : null;
+		if (parent && match) return { to: parent.to + match[2], status: parent.status };
+		return null;
+	},
+});
@@ -0,0 +1,60 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+
+// Revision history of published entries, appended by journal.upsert
+
+export const list = query({
+	args: { slug: v.string() },
+	handler: async (ctx, args) => {
+		const entry = await ctx.db
+			.query("journal")
+			.withIndex("by_slug", (q) => q.eq("slug", args.slug))
+			.first();
+		if (!entry || entry.deletedAt || !entry.published) return null;
+
+		const revisions = await ctx.db
+			.query("journalRevisions")
+			.withIndex("by_slug", (q) => q.eq("slug", args.slug))
+			.order("desc")
+			.collect();
+
+		return {
+			slug: entry.slug,
+			title: entry.title,
+			publishDate: entry.publishDate,
+			revisions: revisions.map((r) => ({
+				_id: r._id,
+				title: r.title,
+				createdAt: r.createdAt,
+				contentHash: r.contentHash,
+				commit: r.commit,
+			})),
+		};
+	},
+});
+
+// A revision and the one before it, for rendering the diff between them
+export const get = query({
+	args: { id: v.id("journalRevisions") },
+	handler: async (ctx, args) => {
+		const revision = await ctx.db.get(args.id);
+		if (!revision) return null;
+
+		const entry = await ctx.db
+			.query("journal")
+			.withIndex("by_slug", (q) => q.eq("slug", revision.slug))
+			.first();
+		if (!entry || entry.deletedAt || !entry.published) return null;
+
+		const previous = await ctx.db
+			.query("journalRevisions")
+			.withIndex("by_slug", (q) => q.eq("slug", revision.slug).lt("createdAt", revision.createdAt))
+			.order("desc")
+			.first();
+
+		return {
+			content: revision.content,
+			previousContent: previous?.content ?? null,
+		};
+	},
+});
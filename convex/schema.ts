@@ -1,6 +1,12 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+export const reference = v.object({
+	key: v.string(),
+	text: v.string(),
+	url: v.optional(v.string()),
+});
+
 export default defineSchema({
 	journal: defineTable({
 		title: v.string(),
@@ -9,17 +15,77 @@ export default defineSchema({
 		content: v.string(), // Markdown content
 		pdfStorageId: v.id("_storage"),
 		pdfUrl: v.string(),
+		thumbnailStorageId: v.optional(v.id("_storage")), // First page as PNG
+		thumbnailUrl: v.optional(v.string()),
 		publishDate: v.string(),
 		published: v.boolean(),
+		publishAt: v.optional(v.string()), // Scheduled publish time (ISO); the publish cron flips published
 		featured: v.optional(v.boolean()),
 		tags: v.optional(v.array(v.string())),
 		category: v.optional(v.string()),
+		series: v.optional(v.string()), // Series name, as written in frontmatter
+		seriesSlug: v.optional(v.string()), // URL key of the series, from seriesSlug()
+		seriesOrder: v.optional(v.number()), // Part number within the series
+		aliases: v.optional(v.array(v.string())), // Former slugs, redirected here (see redirects)
 		pageCount: v.optional(v.number()),
 		fileSize: v.optional(v.number()),
 		contentHash: v.optional(v.string()),
+		diagrams: v.optional(v.array(v.string())), // Hashes of its pre-rendered Mermaid diagrams
+		references: v.optional(v.array(reference)), // Cited bibliography entries, in citation order
+		links: v.optional(v.array(v.string())), // Slugs of the entries it [[links]] to
 		lastSyncedAt: v.optional(v.string()),
+		updatedAt: v.optional(v.string()), // Last content change after the first sync; ISO timestamp
+		searchText: v.optional(v.string()), // Title, description and plain-text body for search_text
+		deletedAt: v.optional(v.string()), // Soft delete (trash); ISO timestamp
 	})
 		.index("by_slug", ["slug"])
 		.index("by_published", ["published", "publishDate"])
-		.index("by_category", ["category", "publishDate"]),
+		.index("by_schedule", ["published", "publishAt"])
+		.index("by_series", ["seriesSlug", "seriesOrder"])
+		.index("by_category", ["category", "publishDate"])
+		.searchIndex("search_text", {
+			searchField: "searchText",
+			filterFields: ["published", "category", "deletedAt"],
+		}),
+
+	// Every version of an entry's markdown, appended when upsert changes it
+	journalRevisions: defineTable({
+		slug: v.string(),
+		title: v.string(),
+		content: v.string(),
+		contentHash: v.optional(v.string()),
+		commit: v.optional(v.string()), // Git commit the entry's file was synced from
+		createdAt: v.string(), // ISO timestamp
+	}).index("by_slug", ["slug", "createdAt"]),
+
+	// Local files referenced from an entry's markdown (images, attachments)
+	journalAssets: defineTable({
+		slug: v.string(),
+		path: v.string(), // Relative to journal/, e.g. "images/foo.png"
+		storageId: v.id("_storage"),
+		url: v.string(),
+		contentType: v.string(),
+		size: v.number(),
+		hash: v.string(),
+	}).index("by_slug", ["slug", "path"]),
+
+	// Redirects served by convex/http.ts before its 404. Sync keeps one per
+	// entry alias (with the entry's slug); others can be added by hand.
+	redirects: defineTable({
+		from: v.string(), // Path without a trailing slash, e.g. "/journal/old-slug"
+		to: v.string(),
+		status: v.union(v.literal(301), v.literal(308)),
+		slug: v.optional(v.string()), // Entry whose alias this is
+	})
+		.index("by_from", ["from"])
+		.index("by_slug", ["slug"]),
+
+	// Mermaid diagrams pre-rendered to SVG at sync time
+	diagrams: defineTable({
+		hash: v.string(),
+		storageId: v.id("_storage"),
+		url: v.string(),
+		width: v.number(),
+		height: v.number(),
+	}).index("by_hash", ["hash"]),
 });
@@ -0,0 +1,71 @@
+// Plain text for the journal search index and result snippets
+
+export interface SnippetPart {
+	text: string;
+	highlight: boolean;
+}
+
+const SNIPPET_LENGTH = 200;
+const SNIPPET_LEAD = 60;
+
+/** Markdown reduced to its words: no syntax, URLs or HTML */
+export function plainText(markdown: string): string {
+	return markdown
+		.replace(/^```.*$/gm, "")
+		.replace(/<[^>]+>/g, " ")
+		.replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+		.replace(/\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|([^\]]+))?\]\]/g, (_, slug: string, label?: string) => label ?? slug)
+		.replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+		.replace(/\[[@^][^\]]*\]:?/g, "")
+		.replace(/^#{1,6}\s+|^>\s?|^\s*(?:[-*+]|\d+\.)\s+/gm, "")
+		.replace(/[*_`~|]+/g, "")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+/** What the search index matches against: title, description and body */
+export function searchableText(entry: { title: string; description?: string; content: string }): string {
+	return [entry.title, entry.description ?? "", plainText(entry.content)].join("\n");
+}
+
+/** Lowercased words of a search query */
+export function searchTerms(query: string): string[] {
+	return query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * A window of the text around the first matching word, split into parts so
+ * the client can highlight matches without rendering HTML. Words match a
+ * term by prefix, as the search index does for the term being typed.
+ */
+export function buildSnippet(text: string, terms: string[]): SnippetPart[] {
+	const pattern =
+		terms.length > 0
+			? new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join("|")})[\\p{L}\\p{N}]*`, "giu")
+			: null;
+	const first = pattern ? text.search(pattern) : -1;
+
+	const start = first > SNIPPET_LEAD ? text.lastIndexOf(" ", first - SNIPPET_LEAD) + 1 : 0;
+	let end = Math.min(text.length, start + SNIPPET_LENGTH);
+	if (end < text.length) {
+		const space = text.lastIndexOf(" ", end);
+		if (space > start) end = space;
+	}
+	const window = text.slice(start, end);
+
+	const parts: SnippetPart[] = [];
+	if (start > 0) parts.push({ text: "…", highlight: false });
+	let cursor = 0;
+	for (const match of pattern ? window.matchAll(pattern) : []) {
+		if (match.index! > cursor) parts.push({ text: window.slice(cursor, match.index), highlight: false });
+		parts.push({ text: match[0], highlight: true });
+		cursor = match.index! + match[0].length;
+	}
+	if (cursor < window.length) parts.push({ text: window.slice(cursor), highlight: false });
+	if (end < text.length) parts.push({ text: "…", highlight: false });
+	return parts;
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,64 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+
+// Multi-part series: entries sharing a `series:` name, ordered by
+// `seriesOrder`. Entries store the name and a URL slug derived from it,
+// which keys the /journal/series/<slug> landing page.
+
+/** "Convex Components: Part 1" → "convex-components-part-1" */
+export function seriesSlug(name: string): string {
+	return name
+		.toLowerCase()
+		.normalize("NFKD")
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-|-$/g, "");
+}
+
+// Published parts of a series, in order
+export const get = query({
+	args: { slug: v.string() },
+	handler: async (ctx, args) => {
+		const entries = await ctx.db
+			.query("journal")
+			.withIndex("by_series", (q) => q.eq("seriesSlug", args.slug))
+			.collect();
+		const parts = entries.filter((e) => e.published && !e.deletedAt);
+		if (parts.length === 0) return null;
+
+		return {
+			slug: args.slug,
+			name: parts[0].series!,
+			parts: parts.map((e) => ({
+				slug: e.slug,
+				title: e.title,
+				description: e.description,
+				publishDate: e.publishDate,
+				seriesOrder: e.seriesOrder!,
+			})),
+		};
+	},
+});
+
+// Every series with at least one published part (for prerendering)
+export const list = query({
+	args: {},
+	handler: async (ctx) => {
+		const entries = await ctx.db
+			.query("journal")
+			.withIndex("by_published", (q) => q.eq("published", true))
+			.filter((q) => q.eq(q.field("deletedAt"), undefined))
+			.collect();
+
+		const series = new Map<string, { slug: string; name: string; parts: number }>();
+		for (const entry of entries) {
+			if (!entry.seriesSlug || !entry.series) continue;
+			const existing = series.get(entry.seriesSlug);
+			series.set(entry.seriesSlug, {
+				slug: entry.seriesSlug,
+				name: existing?.name ?? entry.series,
+				parts: (existing?.parts ?? 0) + 1,
+			});
+		}
+		return [...series.values()];
+	},
+});
@@ -0,0 +1,35 @@
+// Signed requests from scripts/sync.ts to the /api/sync HTTP action
+//
+// The signature is an HMAC-SHA256 of "<timestamp>.<body>" keyed with
+// SYNC_SECRET, which sync and the Convex deployment share. The timestamp
+// (Unix ms) must be recent, so a captured request cannot be replayed later.
+
+import { hmacSha256, timingSafeEqual } from "./hmac";
+
+export const SYNC_PATH = "/api/sync";
+export const TIMESTAMP_HEADER = "X-Sync-Timestamp";
+export const SIGNATURE_HEADER = "X-Sync-Signature";
+
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export async function signSyncRequest(secret: string, timestamp: number, body: string): Promise<string> {
+	return await hmacSha256(secret, `${timestamp}.${body}`);
+}
+
+/** Why a request must be rejected, or null if it is signed and fresh */
+export async function verifySyncRequest(
+	secret: string,
+	request: { timestamp: string | null; signature: string | null; body: string },
+	now = Date.now()
+): Promise<string | null> {
+	if (!request.timestamp || !request.signature) return "missing signature";
+
+	const timestamp = Number(request.timestamp);
+	if (!Number.isInteger(timestamp)) return "malformed timestamp";
+
+	const expected = await signSyncRequest(secret, timestamp, request.body);
+	if (!timingSafeEqual(request.signature, expected)) return "bad signature";
+
+	if (Math.abs(now - timestamp) > MAX_CLOCK_SKEW_MS) return "stale timestamp";
+	return null;
+}
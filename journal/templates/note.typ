@@ -0,0 +1,95 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// NOTE TEMPLATE — Short Entries
+// A single-column note: compact title, no title page or contents
+// Shares the whitepaper palette and fonts
+// ═══════════════════════════════════════════════════════════════════════════════
+
+#import "whitepaper.typ": th-text, th-muted, th-accent, th-border, serif-fonts, sans-fonts
+
+#let multi-column = columns
+
+#let note(
+  title: none,
+  author: "Robel Estifanos",
+  date: datetime.today().display("[month repr:long] [day], [year]"),
+  published: none, // datetime for the PDF metadata
+  keywords: (),
+  abstract: none,
+  show-toc: false,
+  paper: "a5",
+  columns: 1,
+  cover: false,
+  series: none,
+  series-part: none,
+  body
+) = {
+  set document(
+    title: title,
+    author: author,
+    keywords: keywords,
+    date: if published == none { auto } else { published },
+  )
+
+  set page(
+    paper: paper,
+    margin: (x: 0.9in, y: 0.8in),
+    footer: context {
+      set text(size: 7.5pt, fill: th-muted)
+      h(1fr)
+      counter(page).display()
+    },
+  )
+
+  set text(font: serif-fonts, size: 10pt, fill: th-text, lang: "en")
+  set par(justify: true, leading: 0.6em)
+
+  show heading: it => {
+    set text(size: 10.5pt, weight: "semibold")
+    v(0.6em)
+    block(it.body)
+    v(0.2em)
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // TITLE
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  if cover {
+    v(1fr)
+  }
+
+  if series != none {
+    text(font: sans-fonts, size: 7.5pt, fill: th-accent)[#series#if series-part != none [ · Part #series-part]]
+    v(0.2em)
+  }
+  text(size: 15pt)[#title]
+  v(0.3em)
+  text(font: sans-fonts, size: 8pt, fill: th-muted)[#author · #date]
+  v(0.4em)
+  line(length: 40pt, stroke: 1pt + th-accent)
+
+  if abstract != none {
+    v(0.4em)
+    text(size: 9pt, style: "italic", fill: th-muted)[#abstract]
+  }
+
+  if show-toc {
+    v(0.8em)
+    outline(title: none, indent: 1em, depth: 2)
+  }
+
+  if cover {
+    v(1fr)
+    pagebreak()
+  } else {
+    v(0.8em)
+    line(length: 100%, stroke: 0.5pt + th-border)
+    v(0.6em)
+  }
+
+  if columns > 1 {
+    multi-column(columns, body)
+  } else {
+    body
+  }
+}
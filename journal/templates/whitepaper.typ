@@ -21,23 +21,38 @@
 #let sans-fonts = ("SF Pro Display", "Helvetica Neue", "Arial", "sans-serif")
 #let mono-fonts = ("JetBrains Mono", "SF Mono", "Consolas", "monospace")
 
+// The built-in, before the `columns` parameter below shadows it
+#let multi-column = columns
+
 
 #let whitepaper(
   title: none,
   author: "Robel Estifanos",
   date: datetime.today().display("[month repr:long] [day], [year]"),
+  published: none, // datetime for the PDF metadata
+  keywords: (),
   abstract: none,
   show-toc: true,
+  paper: "us-letter",
+  columns: 1,
+  cover: false, // Title and contents on their own page
+  series: none, // Series name, shown above the title with series-part
+  series-part: none,
   body
 ) = {
   // ─────────────────────────────────────────────────────────────────────────────
   // DOCUMENT SETUP
   // ─────────────────────────────────────────────────────────────────────────────
-  set document(title: title, author: author)
+  set document(
+    title: title,
+    author: author,
+    keywords: keywords,
+    date: if published == none { auto } else { published },
+  )
 
   // Page geometry
   set page(
-    paper: "us-letter",
+    paper: paper,
     margin: (
       top: 1.25in,
       bottom: 1in,
@@ -120,6 +135,10 @@
   // TITLE PAGE — Split Layout
   // ─────────────────────────────────────────────────────────────────────────────
 
+  if cover {
+    v(1fr)
+  }
+
   {
     // Two-column grid: logo/author on left, title/abstract on right
     grid(
@@ -147,6 +166,16 @@
       ],
       // Right column: Title + Abstract
       [
+        #if series != none [
+          #text(
+            font: sans-fonts,
+            size: 7.5pt,
+            weight: "semibold",
+            tracking: 0.1em,
+            fill: th-accent,
+          )[#upper[#series#if series-part != none [ · Part #series-part]]]
+          #v(0.5em)
+        ]
         #text(
           size: 20pt,
           weight: "regular",
@@ -193,15 +222,26 @@
     )
   }
 
+  if cover {
+    v(1fr)
+    pagebreak()
+  }
+
   // ─────────────────────────────────────────────────────────────────────────────
   // BODY CONTENT
   // ─────────────────────────────────────────────────────────────────────────────
 
-  v(2em)
+  if not cover {
+    v(2em)
+  }
 
   set par(first-line-indent: 1.5em)
 
-  body
+  if columns > 1 {
+    multi-column(columns, body)
+  } else {
+    body
+  }
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
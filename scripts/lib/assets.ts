@@ -0,0 +1,113 @@
+import { readFile } from "fs/promises";
+import { createHash } from "crypto";
+import { dirname, relative, resolve, sep } from "path";
+import { getMimeType } from "@convex-dev/self-hosting";
+import { marked } from "../../src/lib/utils/markdown";
+import { CONTENT_DIR, type ParsedEntry } from "./entries";
+
+/**
+ * Co-located entry assets: local files referenced from an entry's markdown
+ * (`![diagram](./images/foo.png)`, `[data](./data.csv)`), uploaded to
+ * Convex storage alongside the entry.
+ */
+
+export interface AssetReference {
+	/** The href exactly as written in the markdown */
+	href: string;
+	kind: "image" | "link";
+}
+
+export interface EntryAsset extends AssetReference {
+	/** Absolute path on disk */
+	filePath: string;
+	/** Path relative to CONTENT_DIR with forward slashes, e.g. images/foo.png */
+	path: string;
+	contentType: string;
+	size: number;
+	hash: string;
+}
+
+/**
+ * Collect every image and link in the markdown that points at a local file.
+ */
+export function collectAssetReferences(markdown: string): AssetReference[] {
+	const references = new Map<string, AssetReference>();
+	marked.walkTokens(marked.lexer(markdown), (token) => {
+		if ((token.type === "image" || token.type === "link") && isLocalAsset(token.href)) {
+			const kind = token.type;
+			const existing = references.get(token.href);
+			references.set(token.href, {
+				href: token.href,
+				kind: existing?.kind === "image" ? "image" : kind,
+			});
+		}
+	});
+	return [...references.values()];
+}
+
+/**
+ * Resolve an asset href against the entry's own directory. Returns null when
+ * it escapes the journal directory.
+ */
+export function resolveAssetPath(entry: Pick<ParsedEntry, "filePath">, href: string): string | null {
+	const filePath = resolve(dirname(entry.filePath), decodeURI(stripSuffix(href)));
+	const fromContent = relative(CONTENT_DIR, filePath);
+	if (fromContent.startsWith("..") || fromContent.startsWith(sep)) {
+		return null;
+	}
+	return filePath;
+}
+
+/**
+ * Read and hash every local file the entry references. Throws if one is
+ * missing or outside the journal directory (lint reports these first).
+ */
+export async function loadEntryAssets(entry: ParsedEntry): Promise<EntryAsset[]> {
+	return Promise.all(
+		collectAssetReferences(entry.markdown).map(async (reference) => {
+			const filePath = resolveAssetPath(entry, reference.href);
+			if (!filePath) {
+				throw new Error(`asset "${reference.href}" is outside journal/`);
+			}
+			const data = await readFile(filePath);
+			return {
+				...reference,
+				filePath,
+				path: relative(CONTENT_DIR, filePath).split(sep).join("/"),
+				contentType: getMimeType(filePath),
+				size: data.length,
+				hash: createHash("md5").update(data).digest("hex"),
+			};
+		})
+	);
+}
+
+/**
+ * Point every local asset href at its uploaded URL, keeping any #fragment
+ * or ?query the author wrote.
+ */
+export function rewriteAssetUrls(markdown: string, urls: Map<string, string>): string {
+	let result = markdown;
+	for (const [href, url] of urls) {
+		const target = url + href.slice(stripSuffix(href).length);
+		result = result
+			.split(`](${href}`).join(`](${target}`)
+			.split(`](<${href}>`).join(`](<${target}>`)
+			.split(`]: ${href}`).join(`]: ${target}`);
+	}
+	return result;
+}
+
+function isLocalAsset(href: string): boolean {
+	return (
+		href !== "" &&
+		!/^[a-z][a-z0-9+.-]*:/i.test(href) &&
+		!href.startsWith("/") &&
+		!href.startsWith("#") &&
+		!stripSuffix(href).endsWith(".md")
+	);
+}
+
+function stripSuffix(href: string): string {
+	return href.split(/[?#]/)[0];
+}
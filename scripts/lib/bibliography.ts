@@ -0,0 +1,237 @@
+import { existsSync, readFileSync } from "fs";
+import { createHash } from "crypto";
+import { dirname, relative, resolve, sep } from "path";
+import matter from "gray-matter";
+import type { Tokens } from "marked";
+import { marked, type CitationItem, type Reference } from "../../src/lib/utils/markdown";
+import { CONTENT_DIR, type ParsedEntry } from "./entries";
+
+/**
+ * Bibliographies for `[@key]` citations.
+ *
+ * An entry names a BibTeX (.bib) or Hayagriva (.yml/.yaml) file with
+ * `bibliography:`, relative to the entry like co-located assets. Typst
+ * reads the file itself; sync parses it only to check citation keys and
+ * to store formatted references for the website.
+ */
+
+export interface Bibliography {
+	filePath: string;
+	/** Root-relative path for Typst (compiled with --root at the repo) */
+	typstPath: string;
+	hash: string;
+	references: Map<string, Reference>;
+}
+
+export interface Citation extends CitationItem {
+	/** The citation as written, e.g. [@knuth84, p. 12] */
+	raw: string;
+}
+
+type CitationToken = Tokens.Generic & { items: CitationItem[] };
+
+/** Every citation in the markdown, in document order */
+export function collectCitations(markdown: string): Citation[] {
+	const citations: Citation[] = [];
+	marked.walkTokens(marked.lexer(markdown), (token) => {
+		if (token.type === "citation") {
+			for (const item of (token as CitationToken).items) {
+				citations.push({ ...item, raw: token.raw });
+			}
+		}
+	});
+	return citations;
+}
+
+/**
+ * Read and parse the entry's bibliography, or null if it has none. Throws
+ * if the file is missing, outside journal/, or cannot be parsed.
+ */
+export function readBibliography(entry: Pick<ParsedEntry, "filePath" | "frontmatter">): Bibliography | null {
+	const file = entry.frontmatter.bibliography;
+	if (!file) return null;
+
+	const filePath = resolve(dirname(entry.filePath), file);
+	const fromContent = relative(CONTENT_DIR, filePath);
+	if (fromContent.startsWith("..") || fromContent.startsWith(sep)) {
+		throw new Error(`bibliography "${file}" is outside journal/`);
+	}
+	if (!existsSync(filePath)) {
+		throw new Error(`bibliography "${file}" does not exist`);
+	}
+
+	const text = readFileSync(filePath, "utf-8");
+	let references: Reference[];
+	if (/\.bib$/i.test(filePath)) {
+		references = parseBibtex(text);
+	} else if (/\.ya?ml$/i.test(filePath)) {
+		references = parseHayagriva(text);
+	} else {
+		throw new Error(`bibliography "${file}" must be a .bib (BibTeX) or .yml (Hayagriva) file`);
+	}
+
+	return {
+		filePath,
+		typstPath: "/" + relative(process.cwd(), filePath).split(sep).join("/"),
+		hash: createHash("md5").update(text).digest("hex"),
+		references: new Map(references.map((r) => [r.key, r])),
+	};
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// BibTeX
+// ─────────────────────────────────────────────────────────────────────────────
+
+function parseBibtex(text: string): Reference[] {
+	const references: Reference[] = [];
+	const entryStart = /@([a-zA-Z]+)\s*[{(]/g;
+	let match: RegExpExecArray | null;
+
+	while ((match = entryStart.exec(text))) {
+		const type = match[1].toLowerCase();
+		const opener = text[entryStart.lastIndex - 1];
+		const body = readBalanced(text, entryStart.lastIndex, opener, opener === "(" ? ")" : "}");
+		entryStart.lastIndex += body.length + 1;
+		if (type === "comment" || type === "string" || type === "preamble") continue;
+
+		const comma = body.indexOf(",");
+		const key = body.slice(0, comma === -1 ? undefined : comma).trim();
+		if (!key) throw new Error(`BibTeX @${type} entry without a key`);
+
+		const fields: Record<string, string> = {};
+		const fieldPattern = /([a-zA-Z-]+)\s*=\s*/g;
+		fieldPattern.lastIndex = comma + 1;
+		let field: RegExpExecArray | null;
+		while (comma !== -1 && (field = fieldPattern.exec(body))) {
+			const start = fieldPattern.lastIndex;
+			let value: string;
+			if (body[start] === "{") {
+				value = readBalanced(body, start + 1);
+				fieldPattern.lastIndex = start + value.length + 2;
+			} else if (body[start] === '"') {
+				const end = body.indexOf('"', start + 1);
+				value = body.slice(start + 1, end);
+				fieldPattern.lastIndex = end + 1;
+			} else {
+				value = body.slice(start).match(/^[^,}\s]*/)![0];
+				fieldPattern.lastIndex = start + value.length;
+			}
+			fields[field[1].toLowerCase()] = cleanLatex(value);
+		}
+
+		references.push(
+			formatReference(key, {
+				authors: fields.author?.split(/\s+and\s+/).map(bibtexName),
+				title: fields.title,
+				container: fields.journal ?? fields.booktitle,
+				publisher: fields.publisher ?? fields.institution ?? fields.organization,
+				year: fields.year ?? fields.date?.slice(0, 4),
+				url: fields.url ?? (fields.doi ? `https://doi.org/${fields.doi}` : undefined),
+			})
+		);
+	}
+
+	return references;
+}
+
+/** Text up to the `close` matching the `open` just before `start` */
+function readBalanced(text: string, start: number, open = "{", close = "}"): string {
+	let depth = 1;
+	for (let i = start; i < text.length; i++) {
+		if (text[i] === "\\") {
+			i++;
+		} else if (text[i] === open) {
+			depth++;
+		} else if (text[i] === close && --depth === 0) {
+			return text.slice(start, i);
+		}
+	}
+	throw new Error("unbalanced braces in BibTeX");
+}
+
+/** "Knuth, Donald E." → "Donald E. Knuth" */
+function bibtexName(name: string): string {
+	const [last, first] = name.split(",").map((part) => part.trim());
+	return first ? `${first} ${last}` : last;
+}
+
+function cleanLatex(value: string): string {
+	return value
+		.replace(/\\([&%$#_{}])/g, "$1")
+		.replace(/\\[a-zA-Z]+\s*/g, "")
+		.replace(/[{}]/g, "")
+		.replace(/---/g, "—")
+		.replace(/--/g, "–")
+		.replace(/~/g, " ")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Hayagriva
+// ─────────────────────────────────────────────────────────────────────────────
+
+type HayagrivaEntry = {
+	title?: unknown;
+	author?: unknown;
+	date?: unknown;
+	url?: unknown;
+	doi?: unknown;
+	publisher?: unknown;
+	parent?: unknown;
+};
+
+function parseHayagriva(text: string): Reference[] {
+	// gray-matter's YAML engine, without adding a second YAML dependency
+	const data = matter(`---\n${text}\n---\n`).data as Record<string, HayagrivaEntry>;
+
+	return Object.entries(data).map(([key, entry]) => {
+		const parent = Array.isArray(entry.parent) ? entry.parent[0] : entry.parent;
+		const authors = entry.author === undefined ? undefined : [entry.author].flat().map(String);
+		return formatReference(key, {
+			authors: authors?.map(bibtexName),
+			title: hayagrivaText(entry.title),
+			container: hayagrivaText((parent as HayagrivaEntry | undefined)?.title),
+			publisher: hayagrivaText(entry.publisher),
+			year: entry.date instanceof Date ? String(entry.date.getUTCFullYear()) : hayagrivaText(entry.date)?.slice(0, 4),
+			url: hayagrivaText(entry.url) ?? (entry.doi ? `https://doi.org/${entry.doi}` : undefined),
+		});
+	});
+}
+
+// Hayagriva allows { value: ..., ... } objects in place of strings
+function hayagrivaText(value: unknown): string | undefined {
+	if (value === undefined || value === null) return undefined;
+	if (typeof value === "object" && "value" in value) return String(value.value);
+	return String(value);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Formatting
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A compact, IEEE-like reference: Authors, "Title," Container, Publisher, Year. */
+function formatReference(
+	key: string,
+	fields: {
+		authors?: string[];
+		title?: string;
+		container?: string;
+		publisher?: string;
+		year?: string;
+		url?: string;
+	}
+): Reference {
+	const { authors = [], title, container, publisher, year, url } = fields;
+	const names =
+		authors.length > 3
+			? `${authors[0]} et al.`
+			: authors.length > 1
+				? `${authors.slice(0, -1).join(", ")} and ${authors[authors.length - 1]}`
+				: authors[0];
+
+	const parts = [names, title && `“${title}”`, container, publisher, year].filter(Boolean);
+	const reference: Reference = { key, text: parts.length > 0 ? `${parts.join(", ")}.` : key };
+	if (url) reference.url = url;
+	return reference;
+}
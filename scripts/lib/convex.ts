@@ -0,0 +1,80 @@
+import { getFunctionName, type FunctionArgs, type FunctionReference, type FunctionReturnType } from "convex/server";
+import { SIGNATURE_HEADER, SYNC_PATH, TIMESTAMP_HEADER, signSyncRequest } from "../../convex/syncSignature";
+
+/**
+ * Convex access for the scripts.
+ *
+ * Sync reads (which include drafts) and writes are internal functions that
+ * only the deployment's /api/sync HTTP action can run, so each call is sent
+ * there signed with SYNC_SECRET (see convex/syncSignature.ts).
+ */
+
+type SyncQuery = FunctionReference<"query", "internal">;
+type SyncMutation = FunctionReference<"mutation", "internal">;
+
+export interface SyncClient {
+	query<Q extends SyncQuery>(query: Q, args: FunctionArgs<Q>): Promise<FunctionReturnType<Q>>;
+	mutation<M extends SyncMutation>(mutation: M, args: FunctionArgs<M>): Promise<FunctionReturnType<M>>;
+}
+
+/**
+ * The deployment's HTTP actions (and static site) URL: CONVEX_SITE_URL when
+ * set, else derived from a *.convex.cloud deployment URL. A local backend
+ * (site on :3211) or a custom domain has to set it; null if neither works.
+ */
+function convexSiteUrl(convexUrl: string): string | null {
+	const override = process.env.CONVEX_SITE_URL;
+	if (override) return override.replace(/\/+$/, "");
+	const cloud = /\.convex\.cloud\/?$/;
+	return cloud.test(convexUrl) ? convexUrl.replace(cloud, ".convex.site") : null;
+}
+
+/**
+ * The client sync, trash and preview:link share, configured from
+ * PUBLIC_CONVEX_URL, SYNC_SECRET (must match the deployment's: npx convex
+ * env set SYNC_SECRET <secret>) and optionally CONVEX_SITE_URL. Returns
+ * what is missing as an error message instead.
+ */
+export function syncClientFromEnv(): { client: SyncClient; siteUrl: string } | { error: string } {
+	const convexUrl = process.env.PUBLIC_CONVEX_URL;
+	if (!convexUrl) return { error: "PUBLIC_CONVEX_URL environment variable not set" };
+
+	const secret = process.env.SYNC_SECRET;
+	if (!secret) return { error: "SYNC_SECRET environment variable not set" };
+
+	const siteUrl = convexSiteUrl(convexUrl);
+	if (!siteUrl) return { error: `cannot work out the site URL from ${convexUrl}; set CONVEX_SITE_URL` };
+
+	return { client: createSyncClient(siteUrl, secret), siteUrl };
+}
+
+/** A client for the deployment at siteUrl that signs every call with SYNC_SECRET */
+function createSyncClient(siteUrl: string, secret: string): SyncClient {
+	const endpoint = `${siteUrl}${SYNC_PATH}`;
+
+	async function call(fn: SyncQuery | SyncMutation, args: unknown): Promise<unknown> {
+		const name = getFunctionName(fn);
+		const body = JSON.stringify({ name, args });
+		const timestamp = Date.now();
+		const response = await fetch(endpoint, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				[TIMESTAMP_HEADER]: String(timestamp),
+				[SIGNATURE_HEADER]: await signSyncRequest(secret, timestamp, body),
+			},
+			body,
+		});
+
+		const payload = (await response.json().catch(() => ({}))) as { result?: unknown; error?: string };
+		if (!response.ok) {
+			throw new Error(`${name}: ${payload.error ?? `HTTP ${response.status}`}`);
+		}
+		return payload.result;
+	}
+
+	return {
+		query: async (query, args) => (await call(query, args)) as FunctionReturnType<typeof query>,
+		mutation: async (mutation, args) => (await call(mutation, args)) as FunctionReturnType<typeof mutation>,
+	};
+}
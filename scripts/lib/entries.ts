@@ -0,0 +1,183 @@
+import { readdir } from "fs/promises";
+import { join, basename } from "path";
+import matter from "gray-matter";
+
+export const CONTENT_DIR = join(process.cwd(), "journal");
+export const TEMPLATES_DIR = join(CONTENT_DIR, "templates");
+
+export interface Frontmatter {
+	title: string;
+	slug?: string;
+	/** Former slugs; /journal/<alias> redirects to this entry */
+	aliases?: string[];
+	description?: string;
+	tags?: string[];
+	publishDate?: string | Date;
+	published?: boolean;
+	/** Publish automatically at this time (UTC unless it has an offset) */
+	publishAt?: string | Date;
+	featured?: boolean;
+	category?: string;
+	// Typst template (a .typ in journal/templates/) and its options
+	template?: string;
+	toc?: boolean;
+	paper?: string;
+	columns?: number;
+	cover?: boolean;
+	/** Name of the multi-part series this entry belongs to, and its part number */
+	series?: string;
+	seriesOrder?: number;
+	/** BibTeX or Hayagriva file for [@key] citations, relative to the entry */
+	bibliography?: string;
+}
+
+export interface ParsedEntry {
+	file: string;
+	filePath: string;
+	rawContent: string;
+	/** Frontmatter exactly as parsed, before defaults are applied */
+	data: Record<string, unknown>;
+	frontmatter: Frontmatter;
+	slug: string;
+	publishDate: string;
+	/** publishAt as an ISO timestamp, or null if unset or invalid */
+	publishAt: string | null;
+	markdown: string;
+}
+
+/**
+ * List journal markdown files relative to CONTENT_DIR, or null if the
+ * directory does not exist.
+ */
+export async function listJournalFiles(): Promise<string[] | null> {
+	try {
+		const entries = await readdir(CONTENT_DIR, { recursive: true });
+		return entries.filter(
+			(f): f is string =>
+				typeof f === "string" &&
+				f.endsWith(".md") &&
+				!f.includes("templates/")
+		);
+	} catch {
+		return null;
+	}
+}
+
+export function parseEntry(file: string, rawContent: string): ParsedEntry {
+	const { data, content: markdown } = matter(sanitizeFrontmatter(rawContent));
+	const frontmatter = { ...data } as Frontmatter;
+
+	if (!frontmatter.title) {
+		frontmatter.title = deriveSlug(file)
+			.split("-")
+			.map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+			.join(" ");
+	}
+
+	const slug = frontmatter.slug || deriveSlug(file);
+
+	let publishDate: string;
+	if (frontmatter.publishDate instanceof Date) {
+		publishDate = frontmatter.publishDate.toISOString().split("T")[0];
+	} else if (typeof frontmatter.publishDate === "string") {
+		publishDate = frontmatter.publishDate;
+	} else {
+		publishDate = deriveDateFromFilename(basename(file));
+	}
+
+	return {
+		file,
+		filePath: join(CONTENT_DIR, file),
+		rawContent,
+		data,
+		frontmatter,
+		slug,
+		publishDate,
+		publishAt: parsePublishAt(frontmatter.publishAt),
+		markdown,
+	};
+}
+
+/**
+ * `2026-11-03T09:00`, `2026-11-03 09:00:00` or with an offset such as
+ * `+01:00`, as an ISO timestamp. Times without an offset are UTC.
+ */
+export function parsePublishAt(value: unknown): string | null {
+	if (value instanceof Date) {
+		return isNaN(value.getTime()) ? null : value.toISOString();
+	}
+	if (typeof value !== "string") return null;
+
+	const match = value.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?(Z|[+-]\d{2}:\d{2})?$/);
+	if (!match) return null;
+	const [, year, month, day, hour, minute, second = "00", zone = "Z"] = match;
+	const time = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+	// Reject rolled-over values like 2026-02-30 or 25:00
+	const utc = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+	if (
+		isNaN(time.getTime()) ||
+		utc.getUTCMonth() !== +month - 1 ||
+		utc.getUTCDate() !== +day ||
+		utc.getUTCHours() !== +hour
+	) {
+		return null;
+	}
+	return time.toISOString();
+}
+
+export function deriveSlug(filename: string): string {
+	return basename(filename, ".md").replace(/^\d{4}-\d{2}-\d{2}-/, "");
+}
+
+export function deriveDateFromFilename(filename: string): string {
+	const match = filename.match(/^(\d{4}-\d{2}-\d{2})/);
+	return match ? match[1] : new Date().toISOString().split("T")[0];
+}
+
+export function sanitizeFrontmatter(rawContent: string): string {
+	const frontmatterMatch = rawContent.match(/^---\n([\s\S]*?)\n---/);
+	if (!frontmatterMatch) return rawContent;
+
+	const frontmatterBody = frontmatterMatch[1];
+	const restOfContent = rawContent.slice(frontmatterMatch[0].length);
+
+	const isAlreadyValid = (v: string) =>
+		!v ||
+		/^["'].*["']$/.test(v) ||
+		/^-?\d+(\.\d+)?$/.test(v) ||
+		/^(true|false|null|~)$/i.test(v) ||
+		/^\d{4}-\d{2}-\d{2}/.test(v) ||
+		/^[\[\{]/.test(v);
+
+	// Regex: YAML special chars, em/en dashes, smart quotes, emojis
+	const needsQuoting = (v: string) =>
+		/[:\{\}\[\],&*#?|\-<>=!%@`]/.test(v) ||
+		/[\u2014\u2013\u2018\u2019\u201c\u201d]/.test(v) ||
+		/[\u{1F300}-\u{1F9FF}]/u.test(v) ||
+		v.startsWith(" ") ||
+		v.endsWith(" ");
+
+	const sanitizedLines = frontmatterBody.split("\n").map((line) => {
+		const trimmed = line.trim();
+		if (!trimmed || trimmed.startsWith("#") || trimmed.startsWith("-") || !line.includes(":")) {
+			return line;
+		}
+
+		const match = line.match(/^(\s*)([a-zA-Z_][a-zA-Z0-9_]*):(.*)$/);
+		if (!match) return line;
+
+		const [, indent, key, rawValue] = match;
+		const value = rawValue.trim();
+
+		if (isAlreadyValid(value)) return line;
+
+		if (needsQuoting(value)) {
+			const escaped = value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+			return `${indent}${key}: "${escaped}"`;
+		}
+
+		return line;
+	});
+
+	return `---\n${sanitizedLines.join("\n")}\n---${restOfContent}`;
+}
@@ -0,0 +1,46 @@
+import type { Tokens } from "marked";
+import { createHeadingIds, marked, wikiLinkHref, type WikiLink } from "../../src/lib/utils/markdown";
+import { SITE_URL } from "../../src/lib/site";
+
+/**
+ * Wiki links between entries: `[[slug]]`, `[[slug#heading]]` and
+ * `[[slug|label]]`.
+ *
+ * Lint checks that every target entry and heading exists; sync stores each
+ * entry's outgoing slugs so the site can list backlinks. The website links
+ * to /journal/<slug>, the PDF to the absolute URL on SITE_URL.
+ */
+
+type WikiLinkToken = Tokens.Generic & WikiLink;
+
+/** Every wiki link in the markdown, in document order */
+export function collectWikiLinks(markdown: string): WikiLink[] {
+	const links: WikiLink[] = [];
+	marked.walkTokens(marked.lexer(markdown), (token) => {
+		if (token.type === "wikiLink") {
+			const { slug, heading, label } = token as WikiLinkToken;
+			links.push({ slug, heading, label });
+		}
+	});
+	return links;
+}
+
+/** The ids the website gives the entry's headings */
+export function collectHeadingIds(markdown: string): Set<string> {
+	const ids = new Set<string>();
+	const nextId = createHeadingIds();
+	marked.walkTokens(marked.lexer(markdown), (token) => {
+		if (token.type === "heading") ids.add(nextId(token.text));
+	});
+	return ids;
+}
+
+/** Distinct slugs the markdown links to, excluding the entry itself */
+export function linkedSlugs(markdown: string, selfSlug: string): string[] {
+	const slugs = collectWikiLinks(markdown).map((link) => link.slug);
+	return [...new Set(slugs)].filter((slug) => slug !== selfSlug);
+}
+
+export function wikiLinkUrl(link: WikiLink): string {
+	return SITE_URL + wikiLinkHref(link);
+}
@@ -0,0 +1,503 @@
+import { existsSync } from "fs";
+import { relative } from "path";
+import type { Token } from "marked";
+import { marked } from "../../src/lib/utils/markdown";
+import { parsePublishAt, type Frontmatter, type ParsedEntry } from "./entries";
+import { collectAssetReferences, resolveAssetPath } from "./assets";
+import { convertLatexToTypstMath } from "./math";
+import { checkTemplate } from "./templates";
+import { readBibliography, type Bibliography } from "./bibliography";
+import { collectHeadingIds } from "./links";
+import { seriesSlug } from "../../convex/series";
+
+/**
+ * Runtime validation for journal entries.
+ *
+ * The Frontmatter interface is only a cast over gray-matter output, so this
+ * checks the parsed YAML against FRONTMATTER_SCHEMA and lints the markdown
+ * body, reporting file:line diagnostics. Used by `bun run lint:journal` and
+ * as a gate at the start of sync.
+ */
+
+export interface Diagnostic {
+	filePath: string;
+	line: number;
+	severity: "error" | "warning";
+	rule: string;
+	message: string;
+}
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+type FieldType = "string" | "boolean" | "integer" | "date" | "datetime" | "slug" | "string[]" | "slug[]";
+
+export const FRONTMATTER_SCHEMA: Record<keyof Frontmatter, FieldType> = {
+	title: "string",
+	slug: "slug",
+	aliases: "slug[]",
+	description: "string",
+	tags: "string[]",
+	publishDate: "date",
+	published: "boolean",
+	publishAt: "datetime",
+	featured: "boolean",
+	category: "string",
+	series: "string",
+	seriesOrder: "integer",
+	template: "string",
+	toc: "boolean",
+	paper: "string",
+	columns: "integer",
+	cover: "boolean",
+	bibliography: "string",
+};
+
+const FIELD_DESCRIPTIONS: Record<FieldType, string> = {
+	string: "a string",
+	boolean: "true or false",
+	integer: "a positive whole number",
+	date: "a date (YYYY-MM-DD)",
+	datetime: "a date and time (YYYY-MM-DDTHH:MM, UTC unless it has an offset)",
+	slug: "a lowercase slug (a-z, 0-9, single dashes)",
+	"string[]": "a list of strings",
+	"slug[]": "a list of lowercase slugs",
+};
+
+/** Heading ids of each entry, by slug, for checking [[slug#heading]] links */
+export type LinkTargets = Map<string, Set<string>>;
+
+/**
+ * Lint every entry, including checks that span files (duplicate slugs,
+ * aliases that collide, wiki link targets, series part numbers).
+ */
+export function lintEntries(entries: ParsedEntry[]): Diagnostic[] {
+	const targets: LinkTargets = new Map();
+	for (const entry of entries) {
+		if (!targets.has(entry.slug)) targets.set(entry.slug, collectHeadingIds(entry.markdown));
+	}
+	const diagnostics = entries.flatMap((entry) => lintEntry(entry, targets));
+
+	const bySlug = new Map<string, ParsedEntry[]>();
+	for (const entry of entries) {
+		bySlug.set(entry.slug, [...(bySlug.get(entry.slug) ?? []), entry]);
+	}
+	for (const [slug, owners] of bySlug) {
+		if (owners.length < 2) continue;
+		for (const entry of owners) {
+			const others = owners.filter((o) => o !== entry).map((o) => o.file);
+			diagnostics.push({
+				filePath: entry.filePath,
+				line: keyLine(entry.rawContent, "slug") ?? 1,
+				severity: "error",
+				rule: "slug/duplicate",
+				message: `slug "${slug}" is also used by ${others.join(", ")}`,
+			});
+		}
+	}
+
+	// An alias redirects /journal/<alias>, so it must not be any entry's
+	// slug or another entry's alias
+	const aliasOwners = new Map<string, ParsedEntry[]>();
+	for (const entry of entries) {
+		const { aliases } = entry.frontmatter;
+		if (!Array.isArray(aliases)) continue;
+		for (const alias of new Set(aliases)) {
+			aliasOwners.set(alias, [...(aliasOwners.get(alias) ?? []), entry]);
+		}
+	}
+	for (const [alias, owners] of aliasOwners) {
+		const slugOwners = bySlug.get(alias) ?? [];
+		for (const entry of owners) {
+			const otherAliases = owners.filter((o) => o !== entry).map((o) => o.file);
+			const message = slugOwners.includes(entry)
+				? `alias "${alias}" is this entry's own slug`
+				: slugOwners.length > 0
+					? `alias "${alias}" is the slug of ${slugOwners.map((o) => o.file).join(", ")}`
+					: otherAliases.length > 0
+						? `alias "${alias}" is also an alias of ${otherAliases.join(", ")}`
+						: null;
+			if (!message) continue;
+			diagnostics.push({
+				filePath: entry.filePath,
+				line: keyLine(entry.rawContent, "aliases") ?? 1,
+				severity: "error",
+				rule: "slug/alias-conflict",
+				message,
+			});
+		}
+	}
+
+	const parts = new Map<string, ParsedEntry[]>();
+	for (const entry of entries) {
+		const { series, seriesOrder } = entry.frontmatter;
+		if (typeof series !== "string" || !Number.isInteger(seriesOrder)) continue;
+		const key = `${seriesSlug(series)}#${seriesOrder}`;
+		parts.set(key, [...(parts.get(key) ?? []), entry]);
+	}
+	for (const owners of parts.values()) {
+		if (owners.length < 2) continue;
+		for (const entry of owners) {
+			const others = owners.filter((o) => o !== entry).map((o) => o.file);
+			diagnostics.push({
+				filePath: entry.filePath,
+				line: keyLine(entry.rawContent, "seriesOrder") ?? 1,
+				severity: "error",
+				rule: "series/duplicate-part",
+				message: `part ${entry.frontmatter.seriesOrder} of "${entry.frontmatter.series}" is also ${others.join(", ")}`,
+			});
+		}
+	}
+
+	return diagnostics.sort(
+		(a, b) => a.filePath.localeCompare(b.filePath) || a.line - b.line
+	);
+}
+
+/** Lint one entry; wiki links are only checked when the targets are known */
+export function lintEntry(entry: ParsedEntry, targets?: LinkTargets): Diagnostic[] {
+	return [...lintFrontmatter(entry), ...lintContent(entry, targets)];
+}
+
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+	const { filePath, line, severity, message, rule } = diagnostic;
+	return `${relative(process.cwd(), filePath)}:${line}: ${severity} ${message} [${rule}]`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Frontmatter
+// ─────────────────────────────────────────────────────────────────────────────
+
+function lintFrontmatter(entry: ParsedEntry): Diagnostic[] {
+	const diagnostics: Diagnostic[] = [];
+	const report = (key: string, severity: Diagnostic["severity"], rule: string, message: string) => {
+		diagnostics.push({
+			filePath: entry.filePath,
+			line: keyLine(entry.rawContent, key) ?? 1,
+			severity,
+			rule,
+			message,
+		});
+	};
+
+	const knownKeys = Object.keys(FRONTMATTER_SCHEMA);
+	for (const [key, value] of Object.entries(entry.data)) {
+		if (!(key in FRONTMATTER_SCHEMA)) {
+			const suggestion = closestMatch(key, knownKeys);
+			report(
+				key,
+				"error",
+				"frontmatter/unknown-key",
+				`unknown frontmatter key "${key}"${suggestion ? ` (did you mean "${suggestion}"?)` : ""}`
+			);
+			continue;
+		}
+
+		const type = FRONTMATTER_SCHEMA[key as keyof Frontmatter];
+		const problem = checkField(type, value, rawValue(entry.rawContent, key));
+		if (problem) {
+			report(key, "error", "frontmatter/invalid-value", `${key} must be ${FIELD_DESCRIPTIONS[type]}${problem}`);
+		}
+	}
+
+	// Only meaningful once the values themselves are valid
+	if (diagnostics.length === 0) {
+		const problem = checkTemplate(entry);
+		if (problem) {
+			report(problem.key, "error", "frontmatter/template", problem.message);
+		}
+	}
+
+	if ((entry.data.series === undefined) !== (entry.data.seriesOrder === undefined)) {
+		report(
+			entry.data.series === undefined ? "seriesOrder" : "series",
+			"error",
+			"frontmatter/series",
+			"series and seriesOrder go together: name the series and give this entry's part number"
+		);
+	}
+
+	if (entry.data.publishAt !== undefined && entry.data.published !== undefined) {
+		report(
+			"published",
+			"error",
+			"frontmatter/publish-at",
+			"published and publishAt conflict; publishAt publishes the entry at its time, so remove published"
+		);
+	}
+
+	if (entry.data.title === undefined) {
+		report("title", "warning", "frontmatter/missing-title", `no title; using "${entry.frontmatter.title}" from the filename`);
+	}
+
+	// A slug from the filename must match the same pattern as an explicit
+	// one: the /journal/<slug>.pdf and preview routes match nothing else
+	if (entry.data.slug === undefined && !SLUG_PATTERN.test(entry.slug)) {
+		report(
+			"slug",
+			"error",
+			"slug/invalid",
+			`the filename gives slug "${entry.slug}", which is not lowercase words joined by dashes; rename the file or set slug`
+		);
+	}
+
+	return diagnostics;
+}
+
+/**
+ * Returns null when the value is valid, otherwise a suffix describing what
+ * was found instead.
+ */
+function checkField(type: FieldType, value: unknown, raw: string | null): string | null {
+	const got = ` (got ${describe(value)})`;
+
+	switch (type) {
+		case "string":
+			return typeof value === "string" ? null : got;
+
+		case "boolean":
+			return typeof value === "boolean" ? null : got;
+
+		case "integer":
+			return Number.isInteger(value) && (value as number) > 0 ? null : got;
+
+		case "slug":
+			return typeof value === "string" && SLUG_PATTERN.test(value) ? null : got;
+
+		case "slug[]":
+			return Array.isArray(value) && value.every((v) => typeof v === "string" && SLUG_PATTERN.test(v))
+				? null
+				: got;
+
+		case "string[]":
+			return Array.isArray(value) && value.every((v) => typeof v === "string")
+				? null
+				: got;
+
+		case "datetime":
+			return parsePublishAt(value) ? null : typeof value === "string" ? ` (got "${value}")` : got;
+
+		case "date": {
+			// YAML turns 2025-13-45 into a rolled-over Date, so check the source text
+			const text = value instanceof Date ? (raw ?? "").replace(/^["']|["']$/g, "") : value;
+			if (typeof text === "string" && isCalendarDate(text)) return null;
+			return typeof text === "string" ? ` (got "${text}")` : got;
+		}
+	}
+}
+
+function isCalendarDate(text: string): boolean {
+	const match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (!match) return false;
+	const [, year, month, day] = match.map(Number);
+	const date = new Date(Date.UTC(year, month - 1, day));
+	return (
+		date.getUTCFullYear() === year &&
+		date.getUTCMonth() === month - 1 &&
+		date.getUTCDate() === day
+	);
+}
+
+function describe(value: unknown): string {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "a list";
+	if (typeof value === "string") return `"${value}"`;
+	if (typeof value === "number") return String(value);
+	return typeof value;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Content
+// ─────────────────────────────────────────────────────────────────────────────
+
+function lintContent(entry: ParsedEntry, targets?: LinkTargets): Diagnostic[] {
+	const diagnostics: Diagnostic[] = [];
+	const { body, lineOffset } = splitBody(entry.rawContent);
+	const assetHrefs = new Set(collectAssetReferences(body).map((r) => r.href));
+
+	let bibliography: Bibliography | null = null;
+	if (typeof entry.data.bibliography === "string") {
+		try {
+			bibliography = readBibliography(entry);
+		} catch (error) {
+			diagnostics.push({
+				filePath: entry.filePath,
+				line: keyLine(entry.rawContent, "bibliography") ?? 1,
+				severity: "error",
+				rule: "frontmatter/bibliography",
+				message: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+	const bibliographyFailed = typeof entry.data.bibliography === "string" && !bibliography;
+	let previousDepth = 0;
+	let offset = 0;
+
+	for (const block of marked.lexer(body)) {
+		const blockLine = lineOffset + lineAt(body, offset);
+		let cursor = 0;
+		const lines = new Map<Token, number>();
+		const lineOf = (token: Token) => {
+			if (!lines.has(token)) {
+				const index = block.raw.indexOf(token.raw, cursor);
+				if (index !== -1) cursor = index + token.raw.length;
+				lines.set(token, index === -1 ? blockLine : blockLine + lineAt(block.raw, index) - 1);
+			}
+			return lines.get(token)!;
+		};
+
+		marked.walkTokens([block], (token) => {
+			if (token.type === "heading") {
+				if (previousDepth > 0 && token.depth > previousDepth + 1) {
+					diagnostics.push({
+						filePath: entry.filePath,
+						line: lineOf(token),
+						severity: "warning",
+						rule: "content/heading-skip",
+						message: `heading level ${token.depth} follows level ${previousDepth}`,
+					});
+				}
+				previousDepth = token.depth;
+			} else if (token.type === "image" && !token.text.trim()) {
+				diagnostics.push({
+					filePath: entry.filePath,
+					line: lineOf(token),
+					severity: "warning",
+					rule: "content/image-alt",
+					message: `image "${token.href}" has no alt text`,
+				});
+			} else if (token.type === "citation" && !bibliographyFailed) {
+				for (const { key } of token.items as { key: string }[]) {
+					if (bibliography?.references.has(key)) continue;
+					diagnostics.push({
+						filePath: entry.filePath,
+						line: lineOf(token),
+						severity: "error",
+						rule: "content/unknown-citation",
+						message: bibliography
+							? `citation @${key} is not in ${entry.frontmatter.bibliography}`
+							: `citation @${key} needs a bibliography: file in the frontmatter`,
+					});
+				}
+			} else if (token.type === "wikiLink" && targets) {
+				const problem = checkWikiLink(token.slug, token.heading, targets);
+				if (problem) {
+					diagnostics.push({
+						filePath: entry.filePath,
+						line: lineOf(token),
+						severity: "error",
+						rule: "content/wiki-link",
+						message: problem,
+					});
+				}
+			} else if (token.type === "math") {
+				// KaTeX renders these on the web; the PDF cannot
+				for (const warning of convertLatexToTypstMath(token.text).warnings) {
+					diagnostics.push({
+						filePath: entry.filePath,
+						line: lineOf(token),
+						severity: "warning",
+						rule: "content/math-unsupported",
+						message: warning,
+					});
+				}
+			}
+
+			if ((token.type === "image" || token.type === "link") && assetHrefs.has(token.href)) {
+				const filePath = resolveAssetPath(entry, token.href);
+				if (!filePath || !existsSync(filePath)) {
+					diagnostics.push({
+						filePath: entry.filePath,
+						line: lineOf(token),
+						severity: "error",
+						rule: "content/missing-asset",
+						message: filePath
+							? `"${token.href}" does not exist`
+							: `"${token.href}" points outside journal/`,
+					});
+				}
+			}
+		});
+
+		offset += block.raw.length;
+	}
+
+	return diagnostics;
+}
+
+function checkWikiLink(slug: string, heading: string | undefined, targets: LinkTargets): string | null {
+	const headings = targets.get(slug);
+	if (!headings) {
+		const suggestion = closestMatch(slug, [...targets.keys()]);
+		return `[[${slug}]] links to an entry that does not exist${suggestion ? ` (did you mean "${suggestion}"?)` : ""}`;
+	}
+	if (heading && !headings.has(heading)) {
+		const suggestion = closestMatch(heading, [...headings]);
+		return `entry "${slug}" has no heading #${heading}${suggestion ? ` (did you mean "#${suggestion}"?)` : ""}`;
+	}
+	return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Source positions
+// ─────────────────────────────────────────────────────────────────────────────
+
+const FRONTMATTER_BLOCK = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+function splitBody(rawContent: string): { body: string; lineOffset: number } {
+	const match = rawContent.match(FRONTMATTER_BLOCK);
+	if (!match) return { body: rawContent, lineOffset: 0 };
+	return {
+		body: rawContent.slice(match[0].length),
+		lineOffset: match[0].split("\n").length - 1,
+	};
+}
+
+/** 1-based line of a top-level frontmatter key, if present */
+export function keyLine(rawContent: string, key: string): number | null {
+	const match = rawContent.match(FRONTMATTER_BLOCK);
+	if (!match) return null;
+	const lines = match[1].split("\n");
+	const index = lines.findIndex((line) => line.startsWith(`${key}:`));
+	return index === -1 ? null : index + 2;
+}
+
+function rawValue(rawContent: string, key: string): string | null {
+	const line = keyLine(rawContent, key);
+	if (line === null) return null;
+	return rawContent.split("\n")[line - 1].slice(key.length + 1).trim();
+}
+
+function lineAt(text: string, offset: number): number {
+	return text.slice(0, offset).split("\n").length;
+}
+
+function closestMatch(input: string, candidates: string[]): string | null {
+	let best: string | null = null;
+	let bestDistance = 3;
+	for (const candidate of candidates) {
+		const distance = editDistance(input.toLowerCase(), candidate.toLowerCase());
+		if (distance < bestDistance) {
+			best = candidate;
+			bestDistance = distance;
+		}
+	}
+	return best;
+}
+
+function editDistance(a: string, b: string): number {
+	const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		let previous = row[0];
+		row[0] = i;
+		for (let j = 1; j <= b.length; j++) {
+			const current = row[j];
+			row[j] = Math.min(
+				row[j] + 1,
+				row[j - 1] + 1,
+				previous + (a[i - 1] === b[j - 1] ? 0 : 1)
+			);
+			previous = current;
+		}
+	}
+	return row[b.length];
+}
@@ -0,0 +1,41 @@
+import { readFile, writeFile } from "fs/promises";
+
+/**
+ * Local build manifest (.build/manifest.json).
+ *
+ * Records which content hash each compiled PDF in .build/pdfs was built
+ * from, so a PDF can be re-uploaded (e.g. to another deployment) without
+ * recompiling it.
+ */
+
+const MANIFEST_VERSION = 1;
+
+export interface ManifestEntry {
+	contentHash: string;
+	pdfPath: string;
+	thumbnailPath?: string;
+	fileSize: number;
+	pageCount?: number;
+	builtAt: string;
+}
+
+export interface BuildManifest {
+	version: number;
+	entries: Record<string, ManifestEntry>;
+}
+
+export async function loadManifest(path: string): Promise<BuildManifest> {
+	try {
+		const manifest = JSON.parse(await readFile(path, "utf-8")) as BuildManifest;
+		if (manifest.version === MANIFEST_VERSION && manifest.entries) {
+			return manifest;
+		}
+	} catch {
+		// Missing or unreadable manifest: start fresh
+	}
+	return { version: MANIFEST_VERSION, entries: {} };
+}
+
+export async function saveManifest(path: string, manifest: BuildManifest): Promise<void> {
+	await writeFile(path, JSON.stringify(manifest, null, "\t") + "\n");
+}
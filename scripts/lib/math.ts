@@ -0,0 +1,839 @@
+/**
+ * LaTeX → Typst math translator.
+ *
+ * Parses the KaTeX-supported subset the website renders (balanced groups,
+ * nested fractions, \left…\right, environments, fonts, accents) and emits
+ * Typst math. Commands Typst has no equivalent for are listed in
+ * UNSUPPORTED_COMMANDS; they, and commands we do not know at all, are
+ * reported as warnings rather than passed through as garbage.
+ */
+
+export interface MathConversion {
+	typst: string;
+	warnings: string[];
+}
+
+interface MathToken {
+	type: "command" | "char" | "number" | "eof";
+	value: string;
+	end: number;
+}
+
+interface ParserState {
+	source: string;
+	pos: number;
+	/** Inside a Typst call, where `,` and `;` separate arguments */
+	callDepth: number;
+	warnings: string[];
+}
+
+// A parsed piece of output; `simple` means it is one Typst unit that can
+// take attachments and sit in a script without parentheses
+interface Atom {
+	text: string;
+	simple: boolean;
+}
+
+const GREEK: Record<string, string> = {
+	alpha: "alpha",
+	beta: "beta",
+	gamma: "gamma",
+	delta: "delta",
+	epsilon: "epsilon.alt",
+	varepsilon: "epsilon",
+	zeta: "zeta",
+	eta: "eta",
+	theta: "theta",
+	vartheta: "theta.alt",
+	iota: "iota",
+	kappa: "kappa",
+	varkappa: "kappa.alt",
+	lambda: "lambda",
+	mu: "mu",
+	nu: "nu",
+	xi: "xi",
+	omicron: "omicron",
+	pi: "pi",
+	varpi: "pi.alt",
+	rho: "rho",
+	varrho: "rho.alt",
+	sigma: "sigma",
+	varsigma: "sigma.alt",
+	tau: "tau",
+	upsilon: "upsilon",
+	phi: "phi.alt",
+	varphi: "phi",
+	chi: "chi",
+	psi: "psi",
+	omega: "omega",
+	Gamma: "Gamma",
+	Delta: "Delta",
+	Theta: "Theta",
+	Lambda: "Lambda",
+	Xi: "Xi",
+	Pi: "Pi",
+	Sigma: "Sigma",
+	Upsilon: "Upsilon",
+	Phi: "Phi",
+	Psi: "Psi",
+	Omega: "Omega",
+};
+
+const SYMBOLS: Record<string, string> = {
+	// Binary operators
+	cdot: "dot.op",
+	times: "times",
+	div: "div",
+	pm: "plus.minus",
+	mp: "minus.plus",
+	ast: "ast",
+	star: "star",
+	circ: "∘",
+	bullet: "bullet",
+	oplus: "plus.circle",
+	otimes: "times.circle",
+	setminus: "without",
+	cup: "union",
+	cap: "∩",
+	land: "and",
+	wedge: "and",
+	lor: "or",
+	vee: "or",
+	// Relations
+	leq: "lt.eq",
+	le: "lt.eq",
+	geq: "gt.eq",
+	ge: "gt.eq",
+	neq: "eq.not",
+	ne: "eq.not",
+	ll: "≪",
+	gg: "≫",
+	approx: "approx",
+	equiv: "equiv",
+	sim: "tilde.op",
+	simeq: "≃",
+	cong: "≅",
+	propto: "prop",
+	perp: "perp",
+	parallel: "parallel",
+	mid: "∣",
+	in: "in",
+	notin: "in.not",
+	ni: "∋",
+	subset: "subset",
+	subseteq: "subset.eq",
+	supset: "supset",
+	supseteq: "supset.eq",
+	// Logic and sets
+	forall: "forall",
+	exists: "exists",
+	nexists: "∄",
+	neg: "not",
+	lnot: "not",
+	emptyset: "∅",
+	varnothing: "∅",
+	// Letters and misc
+	infty: "infinity",
+	partial: "partial",
+	nabla: "nabla",
+	ell: "ell",
+	hbar: "ℏ",
+	Re: "ℜ",
+	Im: "ℑ",
+	aleph: "aleph",
+	angle: "angle",
+	triangle: "△",
+	degree: "°",
+	prime: "prime",
+	// Arrows
+	to: "arrow.r",
+	rightarrow: "arrow.r",
+	gets: "arrow.l",
+	leftarrow: "arrow.l",
+	Rightarrow: "arrow.r.double",
+	Leftarrow: "arrow.l.double",
+	leftrightarrow: "arrow.l.r",
+	Leftrightarrow: "arrow.l.r.double",
+	longrightarrow: "arrow.r.long",
+	longleftarrow: "arrow.l.long",
+	Longrightarrow: "arrow.r.double.long",
+	implies: "arrow.r.double.long",
+	Longleftarrow: "arrow.l.double.long",
+	impliedby: "arrow.l.double.long",
+	Longleftrightarrow: "arrow.l.r.double.long",
+	iff: "arrow.l.r.double.long",
+	mapsto: "arrow.r.bar",
+	uparrow: "arrow.t",
+	downarrow: "arrow.b",
+	hookrightarrow: "arrow.r.hook",
+	// Dots
+	dots: "dots.h",
+	ldots: "dots.h",
+	dotsc: "dots.h",
+	cdots: "dots.h.c",
+	dotsb: "dots.h.c",
+	vdots: "dots.v",
+	ddots: "dots.down",
+	// Large operators
+	sum: "sum",
+	prod: "product",
+	coprod: "product.co",
+	int: "integral",
+	iint: "integral.double",
+	iiint: "integral.triple",
+	oint: "integral.cont",
+	bigcup: "⋃",
+	bigcap: "⋂",
+	bigoplus: "⨁",
+	bigotimes: "⨂",
+	// Delimiters
+	langle: "angle.l",
+	rangle: "angle.r",
+	lceil: "ceil.l",
+	rceil: "ceil.r",
+	lfloor: "floor.l",
+	rfloor: "floor.r",
+	vert: "|",
+	lvert: "|",
+	rvert: "|",
+	Vert: "‖",
+	lVert: "‖",
+	rVert: "‖",
+	backslash: "backslash",
+	// Escaped characters
+	"|": "‖",
+	"{": "\\{",
+	"}": "\\}",
+	"%": "%",
+	$: "\\$",
+	"#": "\\#",
+	"&": "\\&",
+	_: "\\_",
+	// Spacing
+	",": "thin",
+	":": "med",
+	">": "med",
+	";": "thick",
+	" ": "space",
+	quad: "quad",
+	qquad: "wide",
+	enspace: "space.en",
+	thinspace: "thin",
+};
+
+// Upright operator names Typst defines with the same spelling
+const FUNCTIONS = new Set([
+	"sin", "cos", "tan", "cot", "sec", "csc", "arcsin", "arccos", "arctan",
+	"sinh", "cosh", "tanh", "coth", "log", "ln", "lg", "exp", "lim", "liminf",
+	"limsup", "max", "min", "sup", "inf", "det", "dim", "ker", "gcd", "arg",
+	"deg", "hom", "mod", "bmod", "Pr",
+]);
+
+const FONTS: Record<string, string> = {
+	mathbb: "bb",
+	mathbf: "bold",
+	boldsymbol: "bold",
+	bm: "bold",
+	mathit: "italic",
+	mathrm: "upright",
+	mathcal: "cal",
+	mathscr: "cal",
+	mathfrak: "frak",
+	mathsf: "sans",
+	mathtt: "mono",
+};
+
+const ACCENTS: Record<string, string> = {
+	hat: "hat",
+	widehat: "hat",
+	tilde: "tilde",
+	widetilde: "tilde",
+	bar: "macron",
+	overline: "overline",
+	underline: "underline",
+	vec: "arrow",
+	overrightarrow: "arrow",
+	dot: "dot",
+	ddot: "dot.double",
+	acute: "acute",
+	grave: "grave",
+	breve: "breve",
+	check: "caron",
+	cancel: "cancel",
+};
+
+// Text-mode commands: the argument is kept verbatim as a Typst string
+const TEXT: Record<string, string | null> = {
+	text: null,
+	textrm: null,
+	textnormal: null,
+	mbox: null,
+	textbf: "bold",
+	textit: "italic",
+	texttt: "mono",
+};
+
+// Commands with no effect on the PDF rendering
+const IGNORED = new Set(["displaystyle", "textstyle", "scriptstyle", "limits", "nolimits", "!"]);
+
+const MATRIX_DELIMS: Record<string, string | null> = {
+	matrix: "#none",
+	array: "#none",
+	pmatrix: null,
+	bmatrix: '"["',
+	Bmatrix: '"{"',
+	vmatrix: '"|"',
+	Vmatrix: '"||"',
+};
+
+const ALIGNED_ENVS = new Set(["aligned", "align", "align*", "gathered", "gather", "gather*", "split", "equation", "equation*"]);
+
+/**
+ * KaTeX commands with no Typst equivalent. `keep` is the argument (1-based)
+ * rendered in place of the command; the other arguments are dropped.
+ */
+export const UNSUPPORTED_COMMANDS: Record<string, { args: number; keep?: number }> = {
+	color: { args: 1 },
+	textcolor: { args: 2, keep: 2 },
+	colorbox: { args: 2, keep: 2 },
+	fcolorbox: { args: 3, keep: 3 },
+	href: { args: 2, keep: 2 },
+	url: { args: 1, keep: 1 },
+	boxed: { args: 1, keep: 1 },
+	tag: { args: 1 },
+	label: { args: 1 },
+	ref: { args: 1 },
+	eqref: { args: 1 },
+	phantom: { args: 1 },
+	hphantom: { args: 1 },
+	vphantom: { args: 1 },
+	htmlClass: { args: 2, keep: 2 },
+	htmlId: { args: 2, keep: 2 },
+	htmlStyle: { args: 2, keep: 2 },
+	htmlData: { args: 2, keep: 2 },
+	newcommand: { args: 2 },
+	renewcommand: { args: 2 },
+	includegraphics: { args: 1 },
+	raisebox: { args: 2, keep: 2 },
+};
+
+/**
+ * Translate a LaTeX math expression (as written for KaTeX) into Typst math.
+ */
+export function convertLatexToTypstMath(latex: string): MathConversion {
+	const state: ParserState = { source: latex, pos: 0, callDepth: 0, warnings: [] };
+	const atoms = parseSequence(state, () => false);
+	return { typst: join(atoms), warnings: state.warnings };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tokens
+// ─────────────────────────────────────────────────────────────────────────────
+
+function peek(state: ParserState): MathToken {
+	const { source } = state;
+	let pos = state.pos;
+	while (pos < source.length && /\s/.test(source[pos])) pos++;
+
+	if (pos >= source.length) {
+		return { type: "eof", value: "", end: pos };
+	}
+	if (source[pos] === "\\") {
+		const name = source.slice(pos + 1).match(/^[a-zA-Z]+/)?.[0];
+		if (name) {
+			return { type: "command", value: name, end: pos + 1 + name.length };
+		}
+		// Control symbol (\, \{ \\ ...); a trailing backslash is dropped
+		const symbol = source[pos + 1] ?? "";
+		return symbol
+			? { type: "command", value: symbol, end: pos + 2 }
+			: { type: "eof", value: "", end: pos + 1 };
+	}
+	const number = source.slice(pos).match(/^\d+(?:\.\d+)?/)?.[0];
+	if (number) {
+		return { type: "number", value: number, end: pos + number.length };
+	}
+	const char = String.fromCodePoint(source.codePointAt(pos)!);
+	return { type: "char", value: char, end: pos + char.length };
+}
+
+function next(state: ParserState): MathToken {
+	const token = peek(state);
+	state.pos = token.end;
+	return token;
+}
+
+function isChar(token: MathToken, value: string): boolean {
+	return token.type === "char" && token.value === value;
+}
+
+function isCommand(token: MathToken, value: string): boolean {
+	return token.type === "command" && token.value === value;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parser
+// ─────────────────────────────────────────────────────────────────────────────
+
+function parseSequence(state: ParserState, stop: (token: MathToken) => boolean): Atom[] {
+	const atoms: Atom[] = [];
+
+	while (true) {
+		const token = peek(state);
+		if (token.type === "eof" || stop(token)) break;
+
+		if (isChar(token, "^") || isChar(token, "_") || isChar(token, "'")) {
+			// Script with nothing before it
+			atoms.push(parseScripts(state, { text: '""', simple: true }));
+			continue;
+		}
+		if (isChar(token, "}")) {
+			next(state);
+			state.warnings.push("unbalanced } in math");
+			continue;
+		}
+
+		const atom = parseAtom(state);
+		if (atom) {
+			atoms.push(parseScripts(state, atom));
+		}
+	}
+
+	return atoms;
+}
+
+/** Attach any ^, _ and primes following an atom */
+function parseScripts(state: ParserState, base: Atom): Atom {
+	let sub: string | null = null;
+	let sup: string | null = null;
+	let primes = "";
+
+	while (true) {
+		const token = peek(state);
+		if (isChar(token, "'")) {
+			next(state);
+			primes += "'";
+		} else if (isChar(token, "^") || isChar(token, "_")) {
+			next(state);
+			const script = formatScript(parseArgument(state));
+			if (token.value === "^") sup = script;
+			else sub = script;
+		} else {
+			break;
+		}
+	}
+
+	if (sub === null && sup === null && !primes) return base;
+
+	if (!base.simple) {
+		// A braced group as base: attach to all of it, without parentheses
+		const parts = [base.text];
+		if (sup !== null) parts.push(`t: ${sup}`);
+		if (sub !== null) parts.push(`b: ${sub}`);
+		const text = parts.length > 1 ? `attach(${parts.join(", ")})` : `(${base.text})`;
+		return { text: text + primes, simple: true };
+	}
+
+	let text = base.text + primes;
+	if (sub !== null) text += `_${sub}`;
+	if (sup !== null) text += `^${sup}`;
+	return { text, simple: true };
+}
+
+function formatScript(atoms: Atom[]): string {
+	const text = join(atoms);
+	// Typst drops one pair of parentheses around a script
+	if (atoms.length === 1 && /^(?:[\p{L}\d.]+|\\.|[^\s\w(])$/u.test(text)) {
+		return text;
+	}
+	return `(${text})`;
+}
+
+/**
+ * A required argument: a braced group, or else a single token (so
+ * \frac12 is 1/2).
+ */
+function parseArgument(state: ParserState): Atom[] {
+	const token = peek(state);
+	if (isChar(token, "{")) {
+		next(state);
+		const atoms = parseSequence(state, (t) => isChar(t, "}"));
+		expectChar(state, "}");
+		return atoms;
+	}
+	if (token.type === "number") {
+		next(state);
+		state.pos -= token.value.length - 1;
+		return [{ text: token.value[0], simple: true }];
+	}
+	if (token.type === "eof") {
+		state.warnings.push("missing argument in math");
+		return [];
+	}
+	const atom = parseAtom(state);
+	return atom ? [atom] : [];
+}
+
+/** An argument rendered inside a Typst call */
+function parseCallArgument(state: ParserState): string {
+	state.callDepth++;
+	try {
+		return join(parseArgument(state));
+	} finally {
+		state.callDepth--;
+	}
+}
+
+/** Optional [..] argument, e.g. the index of \sqrt[3]{x} */
+function parseOptionalArgument(state: ParserState): string | null {
+	if (!isChar(peek(state), "[")) return null;
+	next(state);
+	state.callDepth++;
+	try {
+		const atoms = parseSequence(state, (t) => isChar(t, "]"));
+		expectChar(state, "]");
+		return join(atoms);
+	} finally {
+		state.callDepth--;
+	}
+}
+
+/** The verbatim contents of a braced argument (for \text, \begin, ...) */
+function readRawArgument(state: ParserState): string {
+	const token = peek(state);
+	if (!isChar(token, "{")) {
+		return next(state).value;
+	}
+
+	const { source } = state;
+	const start = token.end;
+	let depth = 1;
+	let pos = start;
+	while (pos < source.length) {
+		const char = source[pos];
+		if (char === "\\") {
+			pos += 2;
+			continue;
+		}
+		if (char === "{") depth++;
+		if (char === "}" && --depth === 0) break;
+		pos++;
+	}
+	if (depth > 0) {
+		state.warnings.push("unbalanced { in math");
+	}
+	state.pos = Math.min(pos + 1, source.length);
+	return source.slice(start, pos);
+}
+
+function expectChar(state: ParserState, char: string) {
+	if (isChar(peek(state), char)) {
+		next(state);
+	} else {
+		state.warnings.push(`expected ${char} in math`);
+	}
+}
+
+function parseAtom(state: ParserState): Atom | null {
+	const token = next(state);
+
+	switch (token.type) {
+		case "number":
+			return { text: token.value, simple: true };
+
+		case "char":
+			return parseChar(state, token.value);
+
+		case "command":
+			return parseCommand(state, token.value);
+
+		default:
+			return null;
+	}
+}
+
+function parseChar(state: ParserState, char: string): Atom | null {
+	switch (char) {
+		case "{": {
+			const atoms = parseSequence(state, (t) => isChar(t, "}"));
+			expectChar(state, "}");
+			if (atoms.length === 0) return null;
+			return atoms.length === 1 ? atoms[0] : { text: join(atoms), simple: false };
+		}
+
+		case "~":
+			return { text: "space", simple: true };
+
+		case ",":
+		case ";":
+			return { text: state.callDepth > 0 ? `\\${char}` : char, simple: true };
+
+		// Typst math syntax that LaTeX treats as plain symbols
+		case "/":
+		case '"':
+		case "#":
+		case "$":
+		case "@":
+		case "&":
+			return { text: `\\${char}`, simple: true };
+
+		default:
+			return { text: char, simple: true };
+	}
+}
+
+function parseCommand(state: ParserState, name: string): Atom | null {
+	if (name in GREEK) return { text: GREEK[name], simple: true };
+	if (name in SYMBOLS) return { text: SYMBOLS[name], simple: true };
+	if (FUNCTIONS.has(name)) return { text: name === "bmod" ? "mod" : name, simple: true };
+	if (IGNORED.has(name)) return null;
+
+	if (name in FONTS) {
+		return { text: `${FONTS[name]}(${parseCallArgument(state)})`, simple: true };
+	}
+	if (name in ACCENTS) {
+		return { text: `${ACCENTS[name]}(${parseCallArgument(state)})`, simple: true };
+	}
+	if (name in TEXT) {
+		const text = typstString(readRawArgument(state));
+		const style = TEXT[name];
+		return { text: style ? `${style}(${text})` : text, simple: true };
+	}
+
+	switch (name) {
+		case "frac":
+		case "dfrac":
+		case "tfrac":
+		case "cfrac": {
+			const numerator = parseCallArgument(state);
+			const denominator = parseCallArgument(state);
+			return { text: `frac(${numerator}, ${denominator})`, simple: true };
+		}
+
+		case "binom":
+		case "dbinom":
+		case "tbinom": {
+			const n = parseCallArgument(state);
+			const k = parseCallArgument(state);
+			return { text: `binom(${n}, ${k})`, simple: true };
+		}
+
+		case "sqrt": {
+			const index = parseOptionalArgument(state);
+			const radicand = parseCallArgument(state);
+			return {
+				text: index ? `root(${index}, ${radicand})` : `sqrt(${radicand})`,
+				simple: true,
+			};
+		}
+
+		case "operatorname": {
+			const limits = isChar(peek(state), "*") ? (next(state), true) : false;
+			const operator = readRawArgument(state).replace(/\\[,;: ]/g, " ").trim();
+			return {
+				text: `op(${typstString(operator)}${limits ? ", limits: #true" : ""})`,
+				simple: true,
+			};
+		}
+
+		case "pmod":
+			return { text: `(mod ${parseCallArgument(state)})`, simple: false };
+
+		case "overbrace":
+		case "underbrace": {
+			const body = parseCallArgument(state);
+			const script = name === "overbrace" ? "^" : "_";
+			if (isChar(peek(state), script)) {
+				next(state);
+				return { text: `${name}(${body}, ${parseCallArgument(state)})`, simple: true };
+			}
+			return { text: `${name}(${body})`, simple: true };
+		}
+
+		case "overset":
+		case "stackrel":
+		case "underset": {
+			const annotation = parseCallArgument(state);
+			const body = parseCallArgument(state);
+			const script = name === "underset" ? "_" : "^";
+			return { text: `limits(${body})${script}(${annotation})`, simple: true };
+		}
+
+		case "not": {
+			const negated = peek(state);
+			if (isChar(negated, "=")) {
+				next(state);
+				return { text: "eq.not", simple: true };
+			}
+			if (isCommand(negated, "in")) {
+				next(state);
+				return { text: "in.not", simple: true };
+			}
+			state.warnings.push("\\not is only supported before = and \\in");
+			return null;
+		}
+
+		case "left":
+			return parseLeftRight(state);
+
+		case "right":
+			state.warnings.push("\\right without \\left in math");
+			readDelimiter(state);
+			return null;
+
+		case "middle":
+			return { text: `mid(${readDelimiter(state) || "|"})`, simple: true };
+
+		case "big":
+		case "Big":
+		case "bigg":
+		case "Bigg":
+		case "bigl":
+		case "Bigl":
+		case "biggl":
+		case "Biggl":
+		case "bigr":
+		case "Bigr":
+		case "biggr":
+		case "Biggr":
+		case "bigm":
+		case "Bigm": {
+			const delimiter = readDelimiter(state);
+			return delimiter ? { text: delimiter, simple: true } : null;
+		}
+
+		case "begin":
+			return parseEnvironment(state, readRawArgument(state).trim());
+
+		case "end":
+			state.warnings.push(`\\end{${readRawArgument(state)}} without \\begin in math`);
+			return null;
+
+		case "\\":
+			return { text: "\\", simple: false };
+	}
+
+	if (name in UNSUPPORTED_COMMANDS) {
+		const { args, keep } = UNSUPPORTED_COMMANDS[name];
+		state.warnings.push(`\\${name} is not supported in the PDF`);
+		let kept: Atom | null = null;
+		for (let i = 1; i <= args; i++) {
+			if (i === keep) {
+				const atoms = parseArgument(state);
+				kept = atoms.length > 0 ? { text: join(atoms), simple: atoms.length === 1 } : null;
+			} else {
+				readRawArgument(state);
+			}
+		}
+		return kept;
+	}
+
+	state.warnings.push(`unknown LaTeX command \\${name}`);
+	return { text: typstString(`\\${name}`), simple: true };
+}
+
+/** \left( … \right) → lr(( … )) */
+function parseLeftRight(state: ParserState): Atom {
+	const open = readDelimiter(state);
+	state.callDepth++;
+	const body = parseSequence(state, (t) => isCommand(t, "right"));
+	state.callDepth--;
+
+	let close = "";
+	if (isCommand(peek(state), "right")) {
+		next(state);
+		close = readDelimiter(state);
+	} else {
+		state.warnings.push("\\left without \\right in math");
+	}
+
+	const inner = [open, join(body), close].filter(Boolean).join(" ");
+	return { text: `lr(${inner})`, simple: true };
+}
+
+/** The delimiter after \left, \right, \big...; "" for the empty `.` */
+function readDelimiter(state: ParserState): string {
+	const token = next(state);
+	if (token.type === "char") {
+		if (token.value === ".") return "";
+		if (token.value === "/") return "\\/";
+		return token.value;
+	}
+	if (token.type === "command" && token.value in SYMBOLS) {
+		return SYMBOLS[token.value];
+	}
+	state.warnings.push("missing delimiter after \\left, \\right or \\big in math");
+	return "";
+}
+
+/** \begin{env} … \end{env}: matrices, cases and aligned equations */
+function parseEnvironment(state: ParserState, env: string): Atom | null {
+	const isMatrix = env in MATRIX_DELIMS;
+	const isCall = isMatrix || env === "cases";
+	if (!isCall && !ALIGNED_ENVS.has(env)) {
+		state.warnings.push(`unsupported environment {${env}} in math`);
+	}
+	if (env === "array") {
+		readRawArgument(state); // Column spec
+	}
+
+	const rows: string[][] = [];
+	let cells: string[] = [];
+	if (isCall) state.callDepth++;
+
+	while (true) {
+		const atoms = parseSequence(
+			state,
+			(t) => isChar(t, "&") || isCommand(t, "\\") || isCommand(t, "end")
+		);
+		cells.push(join(atoms));
+
+		const token = next(state);
+		if (isChar(token, "&")) continue;
+
+		rows.push(cells);
+		cells = [];
+		if (isCommand(token, "\\")) continue;
+
+		if (isCommand(token, "end")) {
+			const closing = readRawArgument(state).trim();
+			if (closing !== env) {
+				state.warnings.push(`\\begin{${env}} closed by \\end{${closing}} in math`);
+			}
+		} else {
+			state.warnings.push(`missing \\end{${env}} in math`);
+		}
+		break;
+	}
+
+	if (isCall) state.callDepth--;
+
+	// A trailing \\ leaves an empty last row
+	if (rows.length > 1 && rows[rows.length - 1].every((cell) => cell === "")) {
+		rows.pop();
+	}
+
+	if (isMatrix) {
+		const delim = MATRIX_DELIMS[env];
+		const body = rows.map((row) => row.join(", ")).join("; ");
+		return { text: `mat(${delim ? `delim: ${delim}, ` : ""}${body})`, simple: true };
+	}
+	if (env === "cases") {
+		return { text: `cases(${rows.map((row) => row.join(" & ")).join(", ")})`, simple: true };
+	}
+	return { text: rows.map((row) => row.join(" & ")).join(" \\\n  "), simple: false };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Output
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Atoms are separated by spaces so adjacent letters never merge into a
+// (multi-letter) Typst identifier
+function join(atoms: Atom[]): string {
+	return atoms.map((atom) => atom.text).join(" ");
+}
+
+function typstString(text: string): string {
+	return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
@@ -0,0 +1,183 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { TEMPLATES_DIR, type ParsedEntry } from "./entries";
+import { escapeTypstText, typstString } from "./typst";
+
+/**
+ * Typst templates in journal/templates/.
+ *
+ * An entry selects one with `template:` (default "whitepaper"). The
+ * contract: `<name>.typ` defines `#let <name>(..., body)`, taking the
+ * document as its one positional parameter and every named parameter sync
+ * passes for the entry (see templateArguments). Contracts are checked
+ * before compiling so a mismatch fails with a readable message.
+ */
+
+export const DEFAULT_TEMPLATE = "whitepaper";
+
+export interface TemplateContract {
+	name: string;
+	parameters: Set<string>;
+	/** Has a `..rest` sink, so any named argument is accepted */
+	acceptsAny: boolean;
+}
+
+/** Names of the .typ files in journal/templates/ */
+export function listTemplates(): string[] {
+	if (!existsSync(TEMPLATES_DIR)) return [];
+	return readdirSync(TEMPLATES_DIR)
+		.filter((file) => file.endsWith(".typ"))
+		.map((file) => file.slice(0, -".typ".length))
+		.sort();
+}
+
+/**
+ * Read a template's parameter list. Throws with a readable message when
+ * the template is missing or does not define its function.
+ */
+export function readTemplateContract(name: string): TemplateContract {
+	if (!/^[a-z][a-z0-9-]*$/.test(name)) {
+		throw new Error(`template "${name}" must be a lowercase name like "whitepaper"`);
+	}
+	const path = join(TEMPLATES_DIR, `${name}.typ`);
+	if (!existsSync(path)) {
+		const available = listTemplates();
+		throw new Error(
+			`template "${name}" not found in journal/templates/` +
+				(available.length > 0 ? ` (available: ${available.join(", ")})` : "")
+		);
+	}
+
+	const source = readFileSync(path, "utf-8");
+	const declaration = source.match(new RegExp(`^#let ${escapeRegExp(name)}\\(`, "m"));
+	if (!declaration) {
+		throw new Error(`journal/templates/${name}.typ must define #let ${name}(..., body)`);
+	}
+
+	const parameters = new Set<string>();
+	let acceptsAny = false;
+	let positional = 0;
+	for (const parameter of splitParameters(source, declaration.index! + declaration[0].length)) {
+		const named = parameter.match(/^([a-zA-Z_][\w-]*)\s*:/);
+		if (named) {
+			parameters.add(named[1]);
+		} else if (parameter.startsWith("..")) {
+			acceptsAny = true;
+		} else if (parameter) {
+			positional++;
+		}
+	}
+	if (positional !== 1) {
+		throw new Error(`#let ${name}(...) in journal/templates/${name}.typ must take the body as its one positional parameter`);
+	}
+
+	return { name, parameters, acceptsAny };
+}
+
+/**
+ * Named arguments (as Typst expressions) passed to the entry's template.
+ * Options the frontmatter leaves unset are omitted so the template's own
+ * defaults apply.
+ */
+export function templateArguments(entry: Pick<ParsedEntry, "frontmatter" | "publishDate">): Record<string, string> {
+	const { frontmatter, publishDate } = entry;
+	const [year, month, day] = publishDate.split("-").map(Number);
+	const published = `datetime(year: ${year}, month: ${month}, day: ${day})`;
+
+	const args: Record<string, string> = {
+		title: typstString(frontmatter.title),
+		date: `${published}.display("[month repr:long] [day], [year]")`,
+		published,
+		keywords: `(${(frontmatter.tags ?? []).map((tag) => `${typstString(tag)}, `).join("")})`,
+	};
+	if (frontmatter.description) args.abstract = `[${escapeTypstText(frontmatter.description)}]`;
+	if (frontmatter.toc !== undefined) args["show-toc"] = String(frontmatter.toc);
+	if (frontmatter.paper !== undefined) args.paper = typstString(frontmatter.paper);
+	if (frontmatter.columns !== undefined) args.columns = String(frontmatter.columns);
+	if (frontmatter.cover !== undefined) args.cover = String(frontmatter.cover);
+	if (frontmatter.series !== undefined) args.series = `[${escapeTypstText(frontmatter.series)}]`;
+	if (frontmatter.seriesOrder !== undefined) args["series-part"] = String(frontmatter.seriesOrder);
+	return args;
+}
+
+/**
+ * Check an entry against its template's contract. Returns the frontmatter
+ * key at fault and a message, or null when the template accepts it.
+ */
+export function checkTemplate(
+	entry: Pick<ParsedEntry, "frontmatter" | "publishDate">
+): { key: string; message: string } | null {
+	let contract: TemplateContract;
+	try {
+		contract = readTemplateContract(entry.frontmatter.template ?? DEFAULT_TEMPLATE);
+	} catch (error) {
+		return { key: "template", message: error instanceof Error ? error.message : String(error) };
+	}
+	if (contract.acceptsAny) return null;
+
+	for (const parameter of Object.keys(templateArguments(entry))) {
+		if (!contract.parameters.has(parameter)) {
+			return {
+				key: FRONTMATTER_KEYS[parameter] ?? "template",
+				message: `template "${contract.name}" has no ${parameter} parameter`,
+			};
+		}
+	}
+	return null;
+}
+
+// Which frontmatter key produces each template argument
+const FRONTMATTER_KEYS: Record<string, string> = {
+	title: "title",
+	abstract: "description",
+	keywords: "tags",
+	date: "publishDate",
+	published: "publishDate",
+	"show-toc": "toc",
+	paper: "paper",
+	columns: "columns",
+	cover: "cover",
+	series: "series",
+	"series-part": "seriesOrder",
+};
+
+/** Top-level comma-separated parameters of the list starting at `start` */
+function splitParameters(source: string, start: number): string[] {
+	const parameters: string[] = [];
+	let depth = 0;
+	let current = "";
+	let inString = false;
+
+	for (let i = start; i < source.length; i++) {
+		const char = source[i];
+		if (inString) {
+			current += char;
+			if (char === "\\") current += source[++i] ?? "";
+			else if (char === '"') inString = false;
+			continue;
+		}
+		if (char === "/" && source[i + 1] === "/") {
+			// Line comment
+			while (i < source.length && source[i] !== "\n") i++;
+			continue;
+		}
+		if (char === '"') inString = true;
+		if ("([{".includes(char)) depth++;
+		if (")]}".includes(char)) {
+			if (depth === 0) break;
+			depth--;
+		}
+		if (char === "," && depth === 0) {
+			parameters.push(current.trim());
+			current = "";
+			continue;
+		}
+		current += char;
+	}
+	parameters.push(current.trim());
+	return parameters.filter(Boolean);
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,342 @@
+import type { Token, Tokens } from "marked";
+import { marked } from "../../src/lib/utils/markdown";
+import { convertLatexToTypstMath } from "./math";
+import { wikiLinkUrl } from "./links";
+
+/**
+ * Markdown → Typst converter.
+ *
+ * Walks the token tree produced by the same `marked` instance the website
+ * renders with, so the PDF and the web page agree on structure (nesting,
+ * task lists, footnotes, table alignment, math, mermaid blocks).
+ */
+
+export interface TypstConvertOptions {
+	/**
+	 * Resolve a mermaid block to an image path (relative to the compiled
+	 * .typ file), or null if the diagram could not be rendered.
+	 */
+	resolveDiagram: (source: string) => string | null;
+	/** Map an image href to a path Typst can read (defaults to the href) */
+	resolveImage?: (href: string) => string;
+	/** Map a link href to its published URL (defaults to the href) */
+	resolveLink?: (href: string) => string;
+	/** Title of the entry a [[slug]] link points to (defaults to the slug) */
+	wikiLinkTitle?: (slug: string) => string | undefined;
+	/** Called for content that cannot be represented faithfully (e.g. unsupported LaTeX) */
+	onWarning?: (message: string) => void;
+}
+
+interface RenderContext {
+	options: TypstConvertOptions;
+	footnotes: Map<string, Token[]>;
+}
+
+type FootnoteToken = Tokens.Generic & { label: string; tokens: Token[] };
+type MathToken = Tokens.Generic & { text: string; displayMode: boolean };
+type CitationToken = Tokens.Generic & { items: { key: string; locator?: string }[] };
+type WikiLinkToken = Tokens.Generic & { slug: string; heading?: string; label?: string };
+
+const TABLE_ALIGN: Record<string, string> = {
+	left: "left",
+	center: "center",
+	right: "right",
+};
+
+export function convertMarkdownBodyToTypst(
+	markdown: string,
+	options: TypstConvertOptions
+): string {
+	const tokens = marked.lexer(markdown);
+
+	// Footnote definitions may appear anywhere; Typst places the text at
+	// the reference site, so collect them before rendering.
+	const footnotes = new Map<string, Token[]>();
+	marked.walkTokens(tokens, (token) => {
+		if (token.type === "footnote") {
+			const footnote = token as FootnoteToken;
+			footnotes.set(footnote.label, footnote.tokens);
+		}
+	});
+
+	return renderBlocks(tokens, { options, footnotes }).trim() + "\n";
+}
+
+/**
+ * Collect the source of every ```mermaid block in document order.
+ */
+export function collectMermaidSources(markdown: string): string[] {
+	const sources: string[] = [];
+	marked.walkTokens(marked.lexer(markdown), (token) => {
+		if (token.type === "code" && token.lang === "mermaid") {
+			sources.push(token.text.trim());
+		}
+	});
+	return sources;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Block-level tokens
+// ─────────────────────────────────────────────────────────────────────────────
+
+function renderBlocks(tokens: Token[], ctx: RenderContext, separator = "\n\n"): string {
+	return tokens
+		.map((token) => renderBlock(token, ctx))
+		.filter((block) => block !== "")
+		.join(separator);
+}
+
+function renderBlock(token: Token, ctx: RenderContext): string {
+	switch (token.type) {
+		case "heading":
+			return `${"=".repeat(token.depth)} ${renderInline(token.tokens ?? [], ctx)}`;
+
+		case "paragraph":
+			return renderParagraph(token as Tokens.Paragraph, ctx);
+
+		case "text":
+			return token.tokens
+				? renderInline(token.tokens, ctx)
+				: escapeTypstText(decodeEntities(token.text));
+
+		case "code":
+			return renderCodeBlock(token as Tokens.Code, ctx);
+
+		case "blockquote":
+			return `#quote(block: true)[\n${renderBlocks(token.tokens ?? [], ctx)}\n]`;
+
+		case "list":
+			return renderList(token as Tokens.List, ctx);
+
+		case "table":
+			return renderTable(token as Tokens.Table, ctx);
+
+		case "hr":
+			return "#line(length: 100%)";
+
+		// Rendered at the reference site, raw HTML has no Typst equivalent,
+		// and link definitions are already resolved by the lexer.
+		case "footnote":
+		case "html":
+		case "def":
+		case "space":
+			return "";
+
+		default:
+			return "raw" in token ? escapeTypstText(token.raw) : "";
+	}
+}
+
+function renderParagraph(token: Tokens.Paragraph, ctx: RenderContext): string {
+	const content = token.tokens.filter((t) => !(t.type === "text" && t.raw.trim() === ""));
+
+	// A paragraph holding a single image becomes a captioned figure
+	if (content.length === 1 && content[0].type === "image") {
+		const image = content[0] as Tokens.Image;
+		if (!isRemoteUrl(image.href)) {
+			const path = ctx.options.resolveImage?.(image.href) ?? image.href;
+			const caption = image.text ? `,\n  caption: [${escapeTypstText(image.text)}],` : ",";
+			return `#figure(\n  image(${typstString(path)}, alt: ${typstString(image.text)})${caption}\n)`;
+		}
+	}
+
+	return renderInline(token.tokens, ctx);
+}
+
+function renderCodeBlock(token: Tokens.Code, ctx: RenderContext): string {
+	if (token.lang === "mermaid") {
+		const path = ctx.options.resolveDiagram(token.text.trim());
+		if (path) {
+			return `#figure(\n  image(${typstString(path)}, width: 80%),\n  kind: "diagram",\n  supplement: none,\n)`;
+		}
+		return `#rect(width: 100%, height: 3cm, stroke: gray)[_Diagram could not be rendered_]`;
+	}
+
+	const fence = "`".repeat(Math.max(3, longestBacktickRun(token.text) + 1));
+	const lang = token.lang?.match(/^[\w-]+/)?.[0] ?? "";
+	return `${fence}${lang}\n${token.text}\n${fence}`;
+}
+
+function renderList(token: Tokens.List, ctx: RenderContext): string {
+	const start = typeof token.start === "number" ? token.start : 1;
+
+	return token.items
+		.map((item, index) => {
+			const marker = token.ordered ? `${start + index}.` : "-";
+			const checkbox = item.task ? (item.checked ? "☑ " : "☐ ") : "";
+			const blocks = item.tokens.filter((t) => t.type !== "checkbox");
+			const body = renderBlocks(blocks, ctx, token.loose ? "\n\n" : "\n");
+			return `${marker} ${checkbox}${indent(body, " ".repeat(marker.length + 1))}`;
+		})
+		.join(token.loose ? "\n\n" : "\n");
+}
+
+function renderTable(token: Tokens.Table, ctx: RenderContext): string {
+	const align = token.align.map((a) => (a ? TABLE_ALIGN[a] : "auto"));
+	const cell = (c: Tokens.TableCell) => `[${renderInline(c.tokens, ctx)}]`;
+
+	const lines = [
+		"#table(",
+		`  columns: ${token.header.length},`,
+		`  align: (${align.join(", ")}),`,
+		"  inset: 8pt,",
+		`  table.header(${token.header.map((c) => `[*${renderInline(c.tokens, ctx)}*]`).join(", ")}),`,
+		...token.rows.map((row) => `  ${row.map(cell).join(", ")},`),
+		")",
+	];
+	return lines.join("\n");
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Inline tokens
+// ─────────────────────────────────────────────────────────────────────────────
+
+function renderInline(tokens: Token[], ctx: RenderContext): string {
+	let result = "";
+	let afterCall = false;
+	for (const token of tokens) {
+		const piece = renderInlineToken(token, ctx);
+		// A call like #strong[..] would otherwise swallow a following
+		// "(", "[" or ".field" as part of the expression
+		if (afterCall && /^(\(|\[|\.\w)/.test(piece)) {
+			result += ";";
+		}
+		result += piece;
+		if (piece !== "") {
+			afterCall = /^#\w/.test(piece) && /[\])]$/.test(piece);
+		}
+	}
+	return result;
+}
+
+function renderInlineToken(token: Token, ctx: RenderContext): string {
+	switch (token.type) {
+		case "text":
+			return token.tokens
+				? renderInline(token.tokens, ctx)
+				: escapeTypstText(decodeEntities(token.text));
+
+		case "escape":
+			return /^[\w\s]$/.test(token.text) ? token.text : `\\${token.text}`;
+
+		case "strong":
+			return `#strong[${renderInline(token.tokens ?? [], ctx)}]`;
+
+		case "em":
+			return `#emph[${renderInline(token.tokens ?? [], ctx)}]`;
+
+		case "del":
+			return `#strike[${renderInline(token.tokens ?? [], ctx)}]`;
+
+		case "codespan":
+			return token.text.includes("`") || token.text.trim() === ""
+				? `#raw(${typstString(token.text)})`
+				: `\`${token.text}\``;
+
+		case "br":
+			return " \\\n";
+
+		case "link": {
+			const link = token as Tokens.Link;
+			const href = ctx.options.resolveLink?.(link.href) ?? link.href;
+			const label = renderInline(link.tokens, ctx);
+			return label === escapeTypstText(link.href)
+				? `#link(${typstString(href)})`
+				: `#link(${typstString(href)})[${label}]`;
+		}
+
+		// The PDF is read outside the site, so link to the published page
+		case "wikiLink": {
+			const link = token as WikiLinkToken;
+			const text = link.label ?? ctx.options.wikiLinkTitle?.(link.slug) ?? link.slug;
+			return `#link(${typstString(wikiLinkUrl(link))})[${escapeTypstText(text)}]`;
+		}
+
+		case "image": {
+			const image = token as Tokens.Image;
+			if (isRemoteUrl(image.href)) {
+				return `#link(${typstString(image.href)})[${escapeTypstText(image.text || image.href)}]`;
+			}
+			const path = ctx.options.resolveImage?.(image.href) ?? image.href;
+			return `#box(image(${typstString(path)}, alt: ${typstString(image.text)}))`;
+		}
+
+		case "math": {
+			const math = token as MathToken;
+			const { typst, warnings } = convertLatexToTypstMath(math.text);
+			for (const warning of warnings) {
+				ctx.options.onWarning?.(warning);
+			}
+			return math.displayMode ? `$ ${typst} $` : `$${typst}$`;
+		}
+
+		// Typst merges adjacent citations into one group
+		case "citation":
+			return (token as CitationToken).items
+				.map(({ key, locator }) =>
+					locator
+						? `#cite(label(${typstString(key)}), supplement: [${escapeTypstText(locator)}])`
+						: `#cite(label(${typstString(key)}))`
+				)
+				.join("");
+
+		case "footnoteRef": {
+			const body = ctx.footnotes.get((token as FootnoteToken).label);
+			return body ? `#footnote[${renderInline(body, ctx)}]` : escapeTypstText(token.raw);
+		}
+
+		// renderList draws the box; loose task items nest it in a paragraph
+		case "checkbox":
+		case "html":
+			return "";
+
+		default:
+			return "raw" in token ? escapeTypstText(token.raw) : "";
+	}
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Escape text so Typst treats it as literal markup content. Line-start
+ * markers (headings, lists, term lists) are escaped at the start of the
+ * text too, since a paragraph or table cell begins a line in Typst.
+ */
+export function escapeTypstText(text: string): string {
+	return text
+		.replace(/[\\#*_`$<>@\[\]~]/g, "\\$&")
+		.replace(/\/\//g, "\\/\\/")
+		.replace(/(^|\n[ \t]*)(=+|[+\/-]|\d+\.)(?=\s|$)/g, (_, space, marker) => {
+			return `${space}${marker.replace(/([=+\/.-])$/, "\\$1")}`;
+		});
+}
+
+/**
+ * Quote a value as a Typst string literal.
+ */
+export function typstString(value: string): string {
+	return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+function decodeEntities(text: string): string {
+	return text
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&#0?39;/g, "'")
+		.replace(/&amp;/g, "&");
+}
+
+function indent(text: string, prefix: string): string {
+	return text.replace(/\n(?!\n)/g, `\n${prefix}`);
+}
+
+function longestBacktickRun(text: string): number {
+	return Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+}
+
+function isRemoteUrl(href: string): boolean {
+	return /^[a-z][a-z0-9+.-]*:/i.test(href);
+}
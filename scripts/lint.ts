@@ -0,0 +1,46 @@
+#!/usr/bin/env bun
+
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { CONTENT_DIR, listJournalFiles, parseEntry, type ParsedEntry } from "./lib/entries";
+import { formatDiagnostic, lintEntries } from "./lib/lint";
+
+// Exit codes: 0 = clean (warnings allowed), 1 = lint errors, 2 = could not run
+async function main(): Promise<number> {
+	const files = await listJournalFiles();
+	if (!files) {
+		console.error("No journal directory found.");
+		return 2;
+	}
+
+	const entries: ParsedEntry[] = [];
+	let parseErrors = 0;
+
+	for (const file of files) {
+		const filePath = join(CONTENT_DIR, file);
+		try {
+			entries.push(parseEntry(file, await readFile(filePath, "utf-8")));
+		} catch (error) {
+			parseErrors++;
+			console.error(`journal/${file}:1: error ${error instanceof Error ? error.message : error} [frontmatter/parse]`);
+		}
+	}
+
+	const diagnostics = lintEntries(entries);
+	for (const diagnostic of diagnostics) {
+		console.log(formatDiagnostic(diagnostic));
+	}
+
+	const errors = diagnostics.filter((d) => d.severity === "error").length + parseErrors;
+	const warnings = diagnostics.length - (errors - parseErrors);
+	console.log(`\n${files.length} files: ${errors} errors, ${warnings} warnings`);
+
+	return errors > 0 ? 1 : 0;
+}
+
+main()
+	.then((code) => process.exit(code))
+	.catch((error) => {
+		console.error(error);
+		process.exit(2);
+	});
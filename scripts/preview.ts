@@ -0,0 +1,65 @@
+#!/usr/bin/env bun
+
+import { internal } from "../convex/_generated/api";
+import { signPreviewToken } from "../convex/previewToken";
+import { syncClientFromEnv } from "./lib/convex";
+
+const USAGE = "Usage: preview:link <slug> [--days <n>]";
+const DEFAULT_DAYS = 7;
+
+// Exit codes: 0 = ok, 1 = no such entry, 2 = could not run
+async function main(): Promise<number> {
+	const args = process.argv.slice(2);
+	let days = DEFAULT_DAYS;
+	const slugs: string[] = [];
+	for (let i = 0; i < args.length; i++) {
+		if (args[i] === "--days") {
+			days = Number(args[++i]);
+		} else {
+			slugs.push(args[i]);
+		}
+	}
+	if (slugs.length !== 1 || !(days > 0)) {
+		console.error(USAGE);
+		return 2;
+	}
+
+	// Must match the deployment's: npx convex env set PREVIEW_SECRET <secret>
+	const secret = process.env.PREVIEW_SECRET;
+	if (!secret) {
+		console.error("Error: PREVIEW_SECRET environment variable not set");
+		return 2;
+	}
+	// Looking up a draft is a signed read, like sync. The static site is
+	// served from the deployment's HTTP actions, at siteUrl.
+	const env = syncClientFromEnv();
+	if ("error" in env) {
+		console.error(`Error: ${env.error}`);
+		return 2;
+	}
+	const { client, siteUrl } = env;
+
+	const [slug] = slugs;
+	const entry = (await client.query(internal.journal.listSyncState, {})).find((e) => e.slug === slug);
+	if (!entry || entry.deleted) {
+		console.error(`✗ ${slug}: not synced to this deployment`);
+		return 1;
+	}
+	if (entry.published) {
+		console.error(`Note: ${slug} is published; the preview link works but is not needed`);
+	}
+
+	const expiresAt = Date.now() + days * 24 * 60 * 60 * 1000;
+	const token = await signPreviewToken(secret, slug, expiresAt);
+
+	console.log(`${siteUrl}/preview/${token}`);
+	console.error(`Expires ${new Date(expiresAt).toISOString().slice(0, 16).replace("T", " ")} UTC`);
+	return 0;
+}
+
+main()
+	.then((code) => process.exit(code))
+	.catch((error) => {
+		console.error(error);
+		process.exit(2);
+	});
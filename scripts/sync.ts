@@ -1,52 +1,114 @@
 #!/usr/bin/env bun
 
 import { readdir, readFile, writeFile, stat, mkdir, unlink, access } from "fs/promises";
-import { join, basename } from "path";
+import { watch } from "fs";
+import { join, relative, sep } from "path";
 import { execSync, exec } from "child_process";
 import { createHash } from "crypto";
-import { promisify } from "util";
-import { ConvexHttpClient } from "convex/browser";
-import { api } from "../convex/_generated/api";
+import { parseArgs, promisify } from "util";
+import { internal } from "../convex/_generated/api";
 import type { Id } from "../convex/_generated/dataModel";
-import matter from "gray-matter";
 import pLimit from "p-limit";
+import { collectMermaidSources, convertMarkdownBodyToTypst, typstString } from "./lib/typst";
+import { loadManifest, saveManifest } from "./lib/manifest";
+import {
+	CONTENT_DIR,
+	TEMPLATES_DIR,
+	deriveSlug,
+	listJournalFiles,
+	parseEntry,
+	type Frontmatter,
+	type ParsedEntry,
+} from "./lib/entries";
+import { formatDiagnostic, lintEntries, type Diagnostic } from "./lib/lint";
+import { diagramHash, type Reference } from "../src/lib/utils/markdown";
+import { collectCitations, readBibliography, type Bibliography } from "./lib/bibliography";
+import { linkedSlugs } from "./lib/links";
+import { DEFAULT_TEMPLATE, checkTemplate, templateArguments } from "./lib/templates";
+import { loadEntryAssets, rewriteAssetUrls, type EntryAsset } from "./lib/assets";
+import { syncClientFromEnv, type SyncClient } from "./lib/convex";
 
 const execAsync = promisify(exec);
 
-const CONTENT_DIR = join(process.cwd(), "journal");
 const BUILD_DIR = join(process.cwd(), ".build");
-const TEMPLATES_DIR = join(CONTENT_DIR, "templates");
 const DIAGRAMS_DIR = join(BUILD_DIR, "diagrams");
+const MANIFEST_PATH = join(BUILD_DIR, "manifest.json");
+
+// Bump when the generated Typst changes so every entry rebuilds once
+const BUILD_VERSION = "3";
+
+const METADATA_FIELDS = [
+	"title",
+	"description",
+	"publishDate",
+	"published",
+	"publishAt",
+	"featured",
+	"tags",
+	"category",
+	"series",
+	"seriesOrder",
+	"aliases",
+] as const;
+
+const WATCH_DEBOUNCE_MS = 300;
+
+// First-page thumbnails: 72 ppi renders a US Letter page at 612×792
+const THUMBNAIL_PPI = 72;
+
+// Metadata markdownToTypst puts at the end of the document; its page is
+// the last page, which `typst query` reads back as the page count
+const PAGE_COUNT_LABEL = "page-count";
+
+// Deleting more entries than this in one run needs --allow-prune: a partial
+// checkout or a wrong CONTENT_DIR should not empty the journal
+const PRUNE_LIMIT = 3;
 
 const DIAGRAM_LIMIT = pLimit(4);
 const FILE_LIMIT = pLimit(6);
 
-interface Frontmatter {
-	title: string;
-	slug?: string;
-	description?: string;
-	tags?: string[];
-	publishDate?: string | Date;
-	published?: boolean;
-	featured?: boolean;
-	category?: string;
-}
-
 interface SyncResult {
 	slug: string;
 	action: "created" | "updated" | "skipped" | "deleted" | "error";
+	reason?: string;
 	error?: string;
 }
 
-interface ProtectedContent {
-	text: string;
-	placeholders: Map<string, string>;
+interface SyncOptions {
+	force: boolean;
+	dryRun: boolean;
+	json: boolean;
+	watch: boolean;
+	allowPrune: boolean;
+	only: string[];
+}
+
+interface PlanItem {
+	slug: string;
+	/** "refused": a planned delete the safety checks held back */
+	action: "create" | "update" | "skip" | "delete" | "refused";
+	reason: string;
+	file?: string;
+	changedFields?: string[];
+	hash?: { remote: string | null; local: string };
 }
 
+type EntryMetadata = Pick<
+	Frontmatter,
+	"title" | "description" | "featured" | "tags" | "category" | "series" | "seriesOrder" | "aliases"
+> & { publishDate: string; published: boolean; publishAt?: string };
+
+// Exit codes: 0 = success, 1 = one or more entries failed,
+// 2 = sync could not run (usage, configuration, unexpected failure)
+const EXIT_OK = 0;
+const EXIT_ENTRY_ERRORS = 1;
+const EXIT_FATAL = 2;
+
 interface MermaidBlock {
 	content: string;
 	hash: string;
-	svgPath: string;
+	pngPath: string; // For the PDF
+	svgPath: string; // For the website
 }
 
 async function ensureDir(dir: string) {
@@ -66,91 +128,69 @@ async function fileExists(path: string): Promise<boolean> {
 	}
 }
 
-function deriveSlug(filename: string): string {
-	return basename(filename, ".md").replace(/^\d{4}-\d{2}-\d{2}-/, "");
-}
-
-function deriveDateFromFilename(filename: string): string {
-	const match = filename.match(/^(\d{4}-\d{2}-\d{2})/);
-	return match ? match[1] : new Date().toISOString().split("T")[0];
+async function hashDirectory(dir: string): Promise<string> {
+	const hash = createHash("md5");
+	const entries = await readdir(dir, { recursive: true }).catch(() => []);
+	const files = entries.filter((f): f is string => typeof f === "string").sort();
+	for (const file of files) {
+		const path = join(dir, file);
+		if ((await stat(path)).isFile()) {
+			hash.update(file).update(await readFile(path));
+		}
+	}
+	return hash.digest("hex");
 }
 
-function hashContent(content: string): string {
-	return createHash("md5").update(content).digest("hex").slice(0, 12);
+/**
+ * Hash everything that affects an entry's output: the source file, the
+ * Typst templates, its co-located assets, and any diagrams that fell back
+ * to a placeholder (so the entry rebuilds once they render).
+ */
+function computeContentHash(
+	fileData: FileToProcess,
+	templateHash: string,
+	failedDiagrams: string[] = []
+): string {
+	const hash = createHash("md5")
+		.update(BUILD_VERSION)
+		.update(templateHash)
+		.update(fileData.rawContent);
+	for (const asset of fileData.assets) {
+		hash.update(`asset:${asset.path}:${asset.hash}`);
+	}
+	if (fileData.bibliography) {
+		hash.update(`bibliography:${fileData.bibliography.hash}`);
+	}
+	// The PDF shows linked entries' titles
+	for (const [slug, title] of fileData.links) {
+		hash.update(`link:${slug}:${title}`);
+	}
+	if (failedDiagrams.length > 0) {
+		hash.update(`failed:${[...failedDiagrams].sort().join(",")}`);
+	}
+	return hash.digest("hex");
 }
 
-function sanitizeFrontmatter(rawContent: string): string {
-	const frontmatterMatch = rawContent.match(/^---\n([\s\S]*?)\n---/);
-	if (!frontmatterMatch) return rawContent;
-
-	const frontmatterBody = frontmatterMatch[1];
-	const restOfContent = rawContent.slice(frontmatterMatch[0].length);
-
-	const isAlreadyValid = (v: string) =>
-		!v ||
-		/^["'].*["']$/.test(v) ||
-		/^-?\d+(\.\d+)?$/.test(v) ||
-		/^(true|false|null|~)$/i.test(v) ||
-		/^\d{4}-\d{2}-\d{2}/.test(v) ||
-		/^[\[\{]/.test(v);
-
-	// Regex: YAML special chars, em/en dashes, smart quotes, emojis
-	const needsQuoting = (v: string) =>
-		/[:\{\}\[\],&*#?|\-<>=!%@`]/.test(v) ||
-		/[\u2014\u2013\u2018\u2019\u201c\u201d]/.test(v) ||
-		/[\u{1F300}-\u{1F9FF}]/u.test(v) ||
-		v.startsWith(" ") ||
-		v.endsWith(" ");
-
-	const sanitizedLines = frontmatterBody.split("\n").map((line) => {
-		const trimmed = line.trim();
-		if (!trimmed || trimmed.startsWith("#") || trimmed.startsWith("-") || !line.includes(":")) {
-			return line;
-		}
-
-		const match = line.match(/^(\s*)([a-zA-Z_][a-zA-Z0-9_]*):(.*)$/);
-		if (!match) return line;
-
-		const [, indent, key, rawValue] = match;
-		const value = rawValue.trim();
-
-		if (isAlreadyValid(value)) return line;
-
-		if (needsQuoting(value)) {
-			const escaped = value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
-			return `${indent}${key}: "${escaped}"`;
-		}
-
-		return line;
+function extractMermaidBlocks(markdown: string): MermaidBlock[] {
+	return collectMermaidSources(markdown).map((content) => {
+		const hash = diagramHash(content);
+		return {
+			content,
+			hash,
+			pngPath: join(DIAGRAMS_DIR, `${hash}.png`),
+			svgPath: join(DIAGRAMS_DIR, `${hash}.svg`),
+		};
 	});
-
-	return `---\n${sanitizedLines.join("\n")}\n---${restOfContent}`;
-}
-
-function extractMermaidBlocks(markdown: string): { 
-	processedMarkdown: string; 
-	blocks: MermaidBlock[] 
-} {
-	const blocks: MermaidBlock[] = [];
-	
-	const processedMarkdown = markdown.replace(
-		/```mermaid\n([\s\S]*?)```/g,
-		(_, diagram) => {
-			const content = diagram.trim();
-			const hash = hashContent(content);
-			const pngPath = join(DIAGRAMS_DIR, `${hash}.png`);
-			
-			blocks.push({ content, hash, svgPath: pngPath });
-			
-			return `MERMAID_${hash}_ENDMERMAID`;
-		}
-	);
-	
-	return { processedMarkdown, blocks };
 }
 
+/**
+ * Render the PNG the PDF needs (throws on failure) and, best effort, the SVG
+ * the website shows. A missing SVG falls back to client-side Mermaid.
+ */
 async function renderMermaidDiagram(block: MermaidBlock): Promise<void> {
-	if (await fileExists(block.svgPath)) {
+	const needsPng = !(await fileExists(block.pngPath));
+	const needsSvg = !(await fileExists(block.svgPath));
+	if (!needsPng && !needsSvg) {
 		return;
 	}
 	
@@ -158,15 +198,66 @@ async function renderMermaidDiagram(block: MermaidBlock): Promise<void> {
 	await writeFile(mmdPath, block.content);
 	
 	try {
-		await execAsync(
-			`bunx mmdc -i "${mmdPath}" -o "${block.svgPath}" -b white -s 2`,
-			{ timeout: 30000 }
-		);
+		if (needsPng) {
+			await execAsync(
+				`bunx mmdc -i "${mmdPath}" -o "${block.pngPath}" -b white -s 2`,
+				{ timeout: 30000 }
+			);
+		}
+		if (needsSvg) {
+			// Match the neutral theme the client-side fallback uses
+			await execAsync(
+				`bunx mmdc -i "${mmdPath}" -o "${block.svgPath}" -t neutral -b transparent`,
+				{ timeout: 30000 }
+			).catch((error) => {
+				console.error(`  ⚠ Failed to render SVG for diagram ${block.hash}:`, error);
+			});
+		}
 	} finally {
 		await unlink(mmdPath).catch(() => {});
 	}
 }
 
+/**
+ * Intrinsic size of an mmdc SVG (from its viewBox), so the page can reserve
+ * space for the <img> before it loads.
+ */
+function svgDimensions(svg: string): { width: number; height: number } | null {
+	const viewBox = svg.match(/viewBox="\s*[-\d.]+[\s,]+[-\d.]+[\s,]+([\d.]+)[\s,]+([\d.]+)\s*"/);
+	if (!viewBox) return null;
+	return {
+		width: Math.round(Number(viewBox[1])),
+		height: Math.round(Number(viewBox[2])),
+	};
+}
+
+/**
+ * Upload SVGs for diagrams the deployment does not have yet. Diagrams are
+ * keyed by source hash, so one shared by several entries is stored once.
+ */
+async function uploadDiagrams(client: SyncClient, blocks: MermaidBlock[]): Promise<number> {
+	const unique = new Map<string, MermaidBlock>();
+	for (const block of blocks) {
+		if (await fileExists(block.svgPath)) {
+			unique.set(block.hash, block);
+		}
+	}
+	if (unique.size === 0) return 0;
+
+	const missing = await client.query(internal.diagrams.missing, { hashes: [...unique.keys()] });
+	for (const hash of missing) {
+		const block = unique.get(hash)!;
+		const dimensions = svgDimensions(await readFile(block.svgPath, "utf-8"));
+		if (!dimensions) {
+			console.error(`  ⚠ Diagram ${hash}: SVG has no viewBox, leaving it to the client`);
+			continue;
+		}
+		const storageId = await uploadFile(client, block.svgPath, "image/svg+xml");
+		await client.mutation(internal.diagrams.upsert, { hash, storageId, ...dimensions });
+	}
+	return missing.length;
+}
+
 /**
  * Render all mermaid diagrams in parallel with concurrency limit
  */
@@ -197,489 +288,727 @@ async function renderAllDiagrams(blocks: MermaidBlock[]): Promise<Map<string, bo
 }
 
 function markdownToTypst(
-	markdown: string, 
-	frontmatter: Frontmatter,
-	diagramResults: Map<string, boolean>
+	fileData: FileToProcess,
+	diagramResults: Map<string, boolean>,
+	assetUrls: Map<string, string>
 ): string {
-	let typst = `#import "templates/whitepaper.typ": whitepaper
-
-#show: whitepaper.with(
-  title: "${escapeTypstString(frontmatter.title)}",
-  ${frontmatter.description ? `abstract: [${frontmatter.description}],` : ""}
-  show-toc: true,
-)
-
-`;
-	typst += convertMarkdownBodyToTypst(markdown, diagramResults);
-	return typst;
-}
-
-function escapeTypstString(str: string): string {
-	return str.replace(/"/g, '\\"').replace(/\\/g, "\\\\");
-}
-
-function escapeTypstTableContent(text: string): string {
-	return text
-		.replace(/@/g, '#"@"')
-		.replace(/\*/g, "\\*")
-		.replace(/_/g, "\\_")
-		.replace(/\$/g, "\\$");
-}
-
-function protectCodeAndSpecialSyntax(markdown: string): ProtectedContent {
-	const placeholders = new Map<string, string>();
-	let counter = 0;
-	let text = markdown;
+	const { markdown, frontmatter, assets } = fileData;
+	const assetsByHref = new Map(assets.map((asset) => [asset.href, asset]));
 
-	const protect = (match: string): string => {
-		const key = `PROTECTED${counter++}ENDPROTECTED`;
-		placeholders.set(key, match);
-		return key;
-	};
-
-	// 1. Fenced code blocks (``` ... ```)
-	text = text.replace(/```[\s\S]*?```/g, protect);
+	// Lint checks this first; re-check in case the template changed since
+	const problem = checkTemplate(fileData);
+	if (problem) {
+		throw new Error(`${problem.key}: ${problem.message}`);
+	}
+	const template = frontmatter.template ?? DEFAULT_TEMPLATE;
+	const args = Object.entries(templateArguments(fileData))
+		.map(([name, value]) => `  ${name}: ${value},\n`)
+		.join("");
 
-	// 2. Inline code (` ... `)
-	text = text.replace(/`[^`\n]+`/g, protect);
+	let typst = `#import "templates/${template}.typ": ${template}
 
-	// 3. Paired emphasis (_text_ with content, not standalone _)
-	text = text.replace(/_([^\s_][^_]*[^\s_])_/g, protect);
-	text = text.replace(/_(\S)_/g, protect);
+#show: ${template}.with(
+${args})
 
-	// 4. Block math ($$...$$)
-	text = text.replace(/\$\$[\s\S]+?\$\$/g, protect);
+`;
+	typst += convertMarkdownBodyToTypst(markdown, {
+		resolveDiagram: (source) => {
+			const hash = diagramHash(source);
+			return diagramResults.get(hash) ? `../.build/diagrams/${hash}.png` : null;
+		},
+		// Root-relative (--root is the repo) so nested entries resolve too
+		resolveImage: (href) => {
+			const asset = assetsByHref.get(href);
+			return asset ? `/${relative(process.cwd(), asset.filePath).split("\\").join("/")}` : href;
+		},
+		resolveLink: (href) => assetUrls.get(href) ?? href,
+		wikiLinkTitle: (slug) => fileData.links.get(slug),
+		onWarning: (message) => console.error(`  ⚠ ${fileData.slug}: ${message}`),
+	});
 
-	// 5. Inline math ($...$) - paired only
-	text = text.replace(/(?<!\$)\$(?!\$)([^$\n]+?)(?<!\$)\$(?!\$)/g, protect);
+	// Numbered to match the website's reference list
+	if (fileData.bibliography) {
+		typst += `\n#bibliography(${typstString(fileData.bibliography.typstPath)}, title: "References", style: "ieee")\n`;
+	}
+	typst += `\n#context [#metadata(here().page()) <${PAGE_COUNT_LABEL}>]\n`;
+	return typst;
+}
 
-	return { text, placeholders };
+/**
+ * The last commit that touched the file, recorded with its revision. None
+ * when the file has uncommitted changes (or this is not a git checkout).
+ */
+function fileCommit(filePath: string): string | undefined {
+	try {
+		const git = (args: string) =>
+			execSync(`git ${args} -- "${filePath}"`, { stdio: "pipe" }).toString().trim();
+		if (git("status --porcelain")) return undefined;
+		return git("log -1 --format=%H") || undefined;
+	} catch {
+		return undefined;
+	}
 }
 
-function escapeUnpairedTypstChars(text: string): string {
-	return text
-		.replace(/\$/g, "\\$")
-		.replace(/_/g, "\\_")
-		.replace(/@/g, '#"@"');
+/**
+ * The cited references in order of first citation, for the website. Lint
+ * has already rejected unknown keys.
+ */
+function citedReferences(fileData: FileToProcess): Reference[] {
+	const references = fileData.bibliography?.references;
+	if (!references) return [];
+	const keys = new Set(collectCitations(fileData.markdown).map((citation) => citation.key));
+	return [...keys].flatMap((key) => references.get(key) ?? []);
 }
 
-function restorePlaceholders(
-	text: string,
-	placeholders: Map<string, string>
-): string {
-	let result = text;
-	for (const [key, value] of placeholders) {
-		result = result.replace(key, value);
+/**
+ * The compiled document's page count, from the PAGE_COUNT_LABEL metadata.
+ * Throws if the query fails or returns something other than a count.
+ */
+function typstPageCount(typstPath: string): number {
+	const output = execSync(
+		`typst query --root "${process.cwd()}" "${typstPath}" "<${PAGE_COUNT_LABEL}>" --field value --one`,
+		{ stdio: "pipe" }
+	);
+	const count: unknown = JSON.parse(output.toString());
+	if (!Number.isInteger(count) || (count as number) < 1) {
+		throw new Error(`typst query returned ${output.toString().trim()} for the page count`);
 	}
-	return result;
+	return count as number;
 }
 
-function convertMarkdownBodyToTypst(
-	markdown: string,
-	diagramResults: Map<string, boolean>
-): string {
-	// PHASE 1: Protect code, inline code, emphasis pairs, and math pairs
-	const { text: protectedText, placeholders } =
-		protectCodeAndSpecialSyntax(markdown);
-
-	// PHASE 2: Escape unpaired $ and _ (safe now since paired ones are protected)
-	let result = escapeUnpairedTypstChars(protectedText);
+interface FileToProcess extends ParsedEntry {
+	mermaidBlocks: MermaidBlock[];
+	assets: EntryAsset[];
+	bibliography: Bibliography | null;
+	/** Titles of the entries it [[links]] to, by slug */
+	links: Map<string, string>;
+}
 
-	// PHASE 3: Restore protected content
-	result = restorePlaceholders(result, placeholders);
 
-	// PHASE 4: Replace mermaid placeholders with #image() or fallback
-	result = result.replace(/MERMAID_([a-f0-9]+)_ENDMERMAID/g, (_, hash) => {
-		if (diagramResults.get(hash)) {
-			return `#figure(\n  image("../.build/diagrams/${hash}.png", width: 80%),\n  kind: "diagram",\n  supplement: none,\n)`;
-		}
-		return `#rect(width: 100%, height: 3cm, stroke: gray)[_Diagram could not be rendered_]`;
+async function uploadFile(
+	client: SyncClient,
+	filePath: string,
+	contentType: string
+): Promise<Id<"_storage">> {
+	const uploadUrl = await client.mutation(internal.journal.generateUploadUrl, {});
+	const uploadResponse = await fetch(uploadUrl, {
+		method: "POST",
+		headers: { "Content-Type": contentType },
+		body: await readFile(filePath),
 	});
 
-	// PHASE 5: Convert markdown to Typst
-
-	// Headers
-	result = result.replace(/^### (.+)$/gm, "=== $1");
-	result = result.replace(/^## (.+)$/gm, "== $1");
-	result = result.replace(/^# (.+)$/gm, "= $1");
-
-	// Bold and italic
-	result = result.replace(/\*\*\*(.+?)\*\*\*/g, "_*$1*_");
-	result = result.replace(/\*\*(.+?)\*\*/g, "*$1*");
-	result = result.replace(/__(.+?)__/g, "*$1*");
-
-	// Links [text](url)
-	result = result.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '#link("$2")[$1]');
+	if (!uploadResponse.ok) {
+		throw new Error(`Upload failed: ${uploadResponse.statusText}`);
+	}
 
-	// Block math $$...$$ to Typst $ ... $
-	result = result.replace(/\$\$([\s\S]+?)\$\$/g, (_, math) => {
-		const typstMath = convertLatexToTypstMath(math.trim());
-		return `$ ${typstMath} $`;
-	});
+	const { storageId } = (await uploadResponse.json()) as {
+		storageId: Id<"_storage">;
+	};
+	return storageId;
+}
 
-	// Inline math $...$
-	result = result.replace(
-		/(?<!\$)\$(?!\$)([^$\n]+?)(?<!\$)\$(?!\$)/g,
-		(_, math) => {
-			const typstMath = convertLatexToTypstMath(math.trim());
-			return `$${typstMath}$`;
-		}
+/**
+ * Upload the entry's co-located assets, skipping files whose hash already
+ * matches the stored copy. Returns the public URL for each href.
+ */
+async function uploadAssets(
+	client: SyncClient,
+	slug: string,
+	assets: EntryAsset[]
+): Promise<Map<string, string>> {
+	const urls = new Map<string, string>();
+	if (assets.length === 0) return urls;
+
+	const remote = new Map(
+		(await client.query(internal.assets.listForEntry, { slug })).map((a) => [a.path, a])
 	);
 
-	// Code blocks with language
-	result = result.replace(/```(\w+)\n([\s\S]*?)```/g, (_, lang, code) => {
-		return `\`\`\`${lang}\n${code.trim()}\n\`\`\``;
-	});
+	for (const asset of assets) {
+		const existing = remote.get(asset.path);
+		if (existing?.hash === asset.hash) {
+			urls.set(asset.href, existing.url);
+			continue;
+		}
 
-	// Plain code blocks
-	result = result.replace(/```\n([\s\S]*?)```/g, "```\n$1```");
+		const storageId = await uploadFile(client, asset.filePath, asset.contentType);
+		const { url } = await client.mutation(internal.assets.upsert, {
+			slug,
+			path: asset.path,
+			storageId,
+			contentType: asset.contentType,
+			size: asset.size,
+			hash: asset.hash,
+		});
+		urls.set(asset.href, url);
+	}
 
-	// Unordered lists
-	result = result.replace(/^(\s*)[-*] (.+)$/gm, (_, indent, text) => {
-		const level = Math.floor(indent.length / 2);
-		return "  ".repeat(level) + "- " + text;
-	});
+	return urls;
+}
 
-	// Ordered lists
-	result = result.replace(/^(\s*)\d+\. (.+)$/gm, (_, indent, text) => {
-		const level = Math.floor(indent.length / 2);
-		return "  ".repeat(level) + "+ " + text;
+function parseOptions(argv: string[]): SyncOptions {
+	const { values } = parseArgs({
+		args: argv,
+		options: {
+			force: { type: "boolean", default: false },
+			"dry-run": { type: "boolean", default: false },
+			json: { type: "boolean", default: false },
+			watch: { type: "boolean", default: false },
+			"allow-prune": { type: "boolean", default: false },
+			only: { type: "string", multiple: true, default: [] },
+		},
+		strict: true,
 	});
 
-	// Blockquotes
-	result = result.replace(/^> (.+)$/gm, "#quote[$1]");
+	return {
+		force: values.force ?? false,
+		dryRun: values["dry-run"] ?? false,
+		json: values.json ?? false,
+		watch: values.watch ?? false,
+		allowPrune: values["allow-prune"] ?? false,
+		only: values.only ?? [],
+	};
+}
 
-	// Horizontal rules
-	result = result.replace(/^---+$/gm, "#line(length: 100%)");
+function entryMetadata(fileData: FileToProcess): EntryMetadata {
+	const { frontmatter, publishDate, publishAt } = fileData;
+	return {
+		title: frontmatter.title,
+		description: frontmatter.description,
+		publishDate,
+		// Scheduled entries stay drafts until the publish cron reaches publishAt
+		published: publishAt ? Date.parse(publishAt) <= Date.now() : (frontmatter.published ?? false),
+		publishAt: publishAt ?? undefined,
+		featured: frontmatter.featured,
+		tags: frontmatter.tags,
+		category: frontmatter.category,
+		series: frontmatter.series,
+		seriesOrder: frontmatter.seriesOrder,
+		aliases: frontmatter.aliases,
+	};
+}
 
-	// Images ![alt](src)
-	result = result.replace(
-		/!\[([^\]]*)\]\(([^)]+)\)/g,
-		'#figure(image("$2"), caption: [$1])'
+function diffMetadata(local: EntryMetadata, remote: Partial<EntryMetadata>): string[] {
+	return METADATA_FIELDS.filter(
+		(field) => JSON.stringify(local[field] ?? null) !== JSON.stringify(remote[field] ?? null)
 	);
-
-	// Tables
-	result = convertMarkdownTables(result);
-
-	return result;
 }
 
-function convertLatexToTypstMath(latex: string): string {
-	let result = latex;
-
-	// Common LaTeX commands to Typst
-	result = result.replace(/\\mathbf\{([^}]+)\}/g, "bold($1)");
-	result = result.replace(/\\mathit\{([^}]+)\}/g, "italic($1)");
-	result = result.replace(/\\mathrm\{([^}]+)\}/g, "upright($1)");
-	result = result.replace(/\\text\{([^}]+)\}/g, '"$1"');
+function planEntry(
+	fileData: FileToProcess,
+	contentHash: string,
+	remote: (Partial<EntryMetadata> & { contentHash: string | null; deleted: boolean }) | undefined,
+	force: boolean
+): PlanItem {
+	const { slug, file } = fileData;
 
-	// Fractions
-	result = result.replace(/\\frac\{([^}]+)\}\{([^}]+)\}/g, "($1) / ($2)");
-
-	// Square root
-	result = result.replace(/\\sqrt\{([^}]+)\}/g, "sqrt($1)");
-	result = result.replace(/\\sqrt\[(\d+)\]\{([^}]+)\}/g, "root($1, $2)");
-
-	// Subscripts and superscripts
-	result = result.replace(/\^{([^}]+)}/g, "^($1)");
-	result = result.replace(/_{([^}]+)}/g, "_($1)");
-
-	// Infinity
-	result = result.replace(/\\infty/g, "infinity");
-
-	// Integrals
-	result = result.replace(
-		/\\int_\{([^}]+)\}\^\{([^}]+)\}/g,
-		"integral_($1)^($2)"
-	);
-	result = result.replace(/\\int/g, "integral");
-
-	// Sum and product
-	result = result.replace(/\\sum_\{([^}]+)\}\^\{([^}]+)\}/g, "sum_($1)^($2)");
-	result = result.replace(
-		/\\prod_\{([^}]+)\}\^\{([^}]+)\}/g,
-		"product_($1)^($2)"
-	);
+	if (!remote) {
+		return { slug, file, action: "create", reason: "new entry", hash: { remote: null, local: contentHash } };
+	}
 
-	// dx, dy differentials
-	result = result.replace(/\\,?d([xyz])\b/g, " dif $1");
-	result = result.replace(/\bd([xyz])\b(?!\w)/g, " dif $1");
-
-	// Matrices - pmatrix
-	result = result.replace(
-		/\\begin\{pmatrix\}([\s\S]*?)\\end\{pmatrix\}/g,
-		(_, content) => {
-			const rows = content
-				.trim()
-				.split("\\\\")
-				.map((row: string) =>
-					row
-						.trim()
-						.split("&")
-						.map((cell: string) => cell.trim())
-						.join(", ")
-				);
-			return `mat(\n  ${rows.join(";\n  ")};\n)`;
-		}
-	);
+	const hash = { remote: remote.contentHash, local: contentHash };
+	if (remote.deleted) {
+		return { slug, file, action: "create", reason: "restored from trash", hash };
+	}
+	if (remote.contentHash === contentHash) {
+		return force
+			? { slug, file, action: "update", reason: "forced", hash }
+			: { slug, file, action: "skip", reason: "unchanged" };
+	}
 
-	// Matrices - bmatrix
-	result = result.replace(
-		/\\begin\{bmatrix\}([\s\S]*?)\\end\{bmatrix\}/g,
-		(_, content) => {
-			const rows = content
-				.trim()
-				.split("\\\\")
-				.map((row: string) =>
-					row
-						.trim()
-						.split("&")
-						.map((cell: string) => cell.trim())
-						.join(", ")
-				);
-			return `mat(delim: "[",\n  ${rows.join(";\n  ")};\n)`;
-		}
-	);
+	const changedFields = diffMetadata(entryMetadata(fileData), remote);
+	const reason = changedFields.length > 0 ? "frontmatter changed" : "content or template changed";
+	return { slug, file, action: "update", reason, changedFields, hash };
+}
 
-	// Common symbols
-	result = result.replace(/\\cdot/g, "dot");
-	result = result.replace(/\\times/g, "times");
-	result = result.replace(/\\div/g, "div");
-	result = result.replace(/\\pm/g, "plus.minus");
-	result = result.replace(/\\leq/g, "<=");
-	result = result.replace(/\\geq/g, ">=");
-	result = result.replace(/\\neq/g, "!=");
-	result = result.replace(/\\approx/g, "approx");
-	result = result.replace(/\\equiv/g, "equiv");
-	result = result.replace(/\\rightarrow/g, "->");
-	result = result.replace(/\\leftarrow/g, "<-");
-	result = result.replace(/\\Rightarrow/g, "=>");
-	result = result.replace(/\\Leftarrow/g, "<=");
-
-	// Common functions
-	result = result.replace(/\\(sin|cos|tan|log|ln|exp|lim|max|min)/g, "$1");
-
-	return result;
+function formatPlanItem(item: PlanItem): string {
+	const icon = { create: "+", update: "~", skip: "=", delete: "-", refused: "!" }[item.action];
+	const details = [item.reason];
+	if (item.changedFields && item.changedFields.length > 0) {
+		details.push(`fields: ${item.changedFields.join(", ")}`);
+	}
+	if (item.hash && item.action !== "skip") {
+		const short = (h: string | null) => (h ? h.slice(0, 12) : "none");
+		details.push(`hash ${short(item.hash.remote)} → ${short(item.hash.local)}`);
+	}
+	return `${icon} ${item.slug} (${item.action}: ${details.join("; ")})`;
 }
 
-function convertMarkdownTables(markdown: string): string {
-	const tableRegex = /\|(.+)\|\n\|[-|\s:]+\|\n((?:\|.+\|\n?)+)/gm;
-
-	return markdown.replace(tableRegex, (match, headerRow, bodyRows) => {
-		const headers = headerRow
-			.split("|")
-			.map((h: string) => h.trim())
-			.filter(Boolean);
-		const rows = bodyRows
-			.trim()
-			.split("\n")
-			.map((row: string) =>
-				row
-					.split("|")
-					.map((cell: string) => cell.trim())
-					.filter(Boolean)
-			);
+function summarize(results: SyncResult[]) {
+	const count = (action: SyncResult["action"]) =>
+		results.filter((r) => r.action === action).length;
+	return {
+		created: count("created"),
+		updated: count("updated"),
+		skipped: count("skipped"),
+		deleted: count("deleted"),
+		errors: count("error"),
+	};
+}
 
-		const colCount = headers.length;
-		const colSpec = `(${Array(colCount).fill("1fr").join(", ")})`;
+// Lint diagnostics for --json reports, with paths relative to the repo like
+// the text output
+function jsonDiagnostics(diagnostics: Diagnostic[]): Diagnostic[] {
+	return diagnostics.map((d) => ({ ...d, filePath: relative(process.cwd(), d.filePath) }));
+}
 
-		let typstTable = `#table(\n  columns: ${colSpec},\n  inset: 8pt,\n`;
+/**
+ * Typst failures carry the compiler's diagnostics on stderr; show those
+ * rather than the "Command failed" wrapper.
+ */
+function formatError(error: unknown): string {
+	const stderr = (error as { stderr?: Buffer | string }).stderr?.toString().trim();
+	if (stderr) {
+		return `typst compile failed\n${stderr.replace(/^/gm, "    ")}`;
+	}
+	return String(error);
+}
 
-		headers.forEach((h: string) => {
-			typstTable += `  [*${escapeTypstTableContent(h)}*],\n`;
-		});
+/**
+ * Re-sync on save. Markdown changes sync just that entry; template and
+ * asset changes run an incremental sync, where the content hashes limit
+ * rebuilds to the affected entries.
+ */
+async function watchJournal(
+	client: SyncClient,
+	options: SyncOptions,
+	log: (...args: unknown[]) => void
+): Promise<number> {
+	const pending = new Set<string>();
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let running: Promise<void> = Promise.resolve();
+
+	const flush = () => {
+		const changed = [...pending];
+		pending.clear();
+		running = running.then(async () => {
+			const only = new Set<string>();
+			for (const file of changed) {
+				if (!file.endsWith(".md") || file.startsWith("templates/")) {
+					// Template or asset: let the hashes find affected entries
+					only.clear();
+					break;
+				}
+				try {
+					const rawContent = await readFile(join(CONTENT_DIR, file), "utf-8");
+					only.add(parseEntry(file, rawContent).slug);
+				} catch {
+					// Deleted or unparsable: the full run below reports it
+					only.clear();
+					break;
+				}
+			}
 
-		rows.forEach((row: string[]) => {
-			row.forEach((cell) => {
-				typstTable += `  [${escapeTypstTableContent(cell)}],\n`;
+			log(`\n↻ ${changed.join(", ")} changed`);
+			await runSync(client, { ...options, only: [...only] }, log).catch((error) => {
+				console.error(`✗ ${formatError(error)}`);
 			});
+			log("\n👀 Watching journal/ for changes...");
 		});
+	};
+
+	await runSync(client, options, log);
+	log("\n👀 Watching journal/ for changes...");
+
+	watch(CONTENT_DIR, { recursive: true }, (_event, filename) => {
+		if (!filename) return;
+		const file = filename.toString().split(sep).join("/");
+		// Ignore sync's own scratch files and editor dotfiles
+		if (file.split("/").some((part) => part.startsWith("."))) return;
 
-		typstTable += ")";
-		return typstTable;
+		pending.add(file);
+		clearTimeout(timer);
+		timer = setTimeout(flush, WATCH_DEBOUNCE_MS);
 	});
-}
 
-interface FileToProcess {
-	file: string;
-	filePath: string;
-	rawContent: string;
-	frontmatter: Frontmatter;
-	slug: string;
-	publishDate: string;
-	contentHash: string;
-	markdown: string;
-	mermaidBlocks: MermaidBlock[];
-	processedMarkdown: string;
+	// Run until interrupted
+	return new Promise<number>(() => {});
 }
 
-async function main() {
-	const convexUrl = process.env.PUBLIC_CONVEX_URL;
-	if (!convexUrl) {
-		console.error("Error: PUBLIC_CONVEX_URL environment variable not set");
-		process.exit(1);
+async function main(): Promise<number> {
+	let options: SyncOptions;
+	try {
+		options = parseOptions(process.argv.slice(2));
+	} catch (error) {
+		console.error(`Error: ${error instanceof Error ? error.message : error}`);
+		console.error("Usage: sync [--dry-run] [--json] [--force] [--watch] [--allow-prune] [--only <slug>]...");
+		return EXIT_FATAL;
+	}
+
+	// Keep stdout clean for the JSON report
+	const log = options.json ? console.error : console.log;
+
+	// Reads and writes are signed
+	const env = syncClientFromEnv();
+	if ("error" in env) {
+		console.error(`Error: ${env.error}`);
+		return EXIT_FATAL;
 	}
 
-	console.log("📝 Starting journal sync...\n");
+	const { client } = env;
+	if (options.watch) {
+		return watchJournal(client, options, log);
+	}
+	return runSync(client, options, log);
+}
+
+async function runSync(
+	client: SyncClient,
+	options: SyncOptions,
+	log: (...args: unknown[]) => void
+): Promise<number> {
+	log(options.dryRun ? "📝 Planning journal sync (dry run)...\n" : "📝 Starting journal sync...\n");
 
-	const client = new ConvexHttpClient(convexUrl);
 	const results: SyncResult[] = [];
+	const plan: PlanItem[] = [];
 
 	const pdfDir = join(BUILD_DIR, "pdfs");
-	const typstDir = join(BUILD_DIR, "typst");
-	await ensureDir(pdfDir);
-	await ensureDir(typstDir);
-	await ensureDir(DIAGRAMS_DIR);
+	if (!options.dryRun) {
+		await ensureDir(pdfDir);
+		await ensureDir(DIAGRAMS_DIR);
+	}
 
-	let files: string[];
-	try {
-		const entries = await readdir(CONTENT_DIR, { recursive: true });
-		files = entries.filter(
-			(f) =>
-				typeof f === "string" &&
-				f.endsWith(".md") &&
-				!f.includes("templates/")
-		);
-	} catch {
-		console.log("No journal directory found. Creating...");
+	const files = await listJournalFiles();
+	if (!files) {
+		if (options.dryRun) {
+			log("No journal directory found.");
+			return EXIT_OK;
+		}
+		log("No journal directory found. Creating...");
 		await ensureDir(CONTENT_DIR);
 		await ensureDir(TEMPLATES_DIR);
-		console.log("Created journal/ and journal/templates/");
-		console.log("Add .md files and run sync again.");
-		return;
+		log("Created journal/ and journal/templates/");
+		log("Add .md files and run sync again.");
+		return EXIT_OK;
 	}
 
 	if (files.length === 0) {
-		console.log("No .md files found in journal/");
-		return;
+		log("No .md files found in journal/");
+		return EXIT_OK;
 	}
 
-	// PHASE 1: Read all files and extract mermaid blocks
-	console.log(`📄 Reading ${files.length} files...`);
+	const manifest = await loadManifest(MANIFEST_PATH);
+	const templateHash = await hashDirectory(TEMPLATES_DIR);
+	const remoteEntries = new Map(
+		(await client.query(internal.journal.listSyncState, {})).map((e) => [e.slug, e])
+	);
+
+	// PHASE 1: Read all files and plan each entry
+	log(`📄 Reading ${files.length} files...`);
 	const filesToProcess: FileToProcess[] = [];
-	const allMermaidBlocks: MermaidBlock[] = [];
+	const planned = new Map<string, PlanItem>();
+	const localSlugs = new Set<string>();
+	let readErrors = 0;
+
+	const parsedEntries: ParsedEntry[] = [];
 
 	for (const file of files) {
-		const filePath = join(CONTENT_DIR, file);
-		const rawContent = await readFile(filePath, "utf-8");
+		try {
+			const rawContent = await readFile(join(CONTENT_DIR, file), "utf-8");
+			parsedEntries.push(parseEntry(file, rawContent));
+		} catch (error) {
+			// Keep the derived slug so a file we could not parse is never pruned
+			const slug = deriveSlug(file);
+			localSlugs.add(slug);
+			readErrors++;
+			console.error(`✗ ${file}: ${error}`);
+			results.push({
+				slug,
+				action: "error",
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	// Frontmatter and content lint gates the whole run: a duplicate slug or
+	// a typo'd key would otherwise sync silently
+	const diagnostics = lintEntries(parsedEntries);
+	for (const diagnostic of diagnostics) {
+		console.error(formatDiagnostic(diagnostic));
+	}
+	const lintErrors = diagnostics.filter((d) => d.severity === "error").length;
+	if (lintErrors > 0) {
+		console.error(`\n✗ ${lintErrors} lint errors; fix them or run \`bun run lint:journal\` for details`);
+		if (options.json) {
+			// Nothing was planned; the summary keeps the shape of this kind of run
+			const summary = options.dryRun
+				? { create: 0, update: 0, skip: 0, delete: 0, refused: 0, errors: results.length }
+				: summarize(results);
+			console.log(
+				JSON.stringify(
+					{
+						dryRun: options.dryRun,
+						plan,
+						results,
+						summary: { ...summary, lintErrors },
+						diagnostics: jsonDiagnostics(diagnostics),
+					},
+					null,
+					2
+				)
+			);
+		}
+		return EXIT_ENTRY_ERRORS;
+	}
+
+	const titles = new Map(parsedEntries.map((entry) => [entry.slug, entry.frontmatter.title]));
 
-		const { data, content: markdown } = matter(sanitizeFrontmatter(rawContent));
-		const frontmatter = data as Frontmatter;
+	for (const entry of parsedEntries) {
+		const { slug } = entry;
+		localSlugs.add(slug);
+		if (options.only.length > 0 && !options.only.includes(slug)) {
+			continue;
+		}
 
-		if (!frontmatter.title) {
-			frontmatter.title = deriveSlug(file)
-				.split("-")
-				.map((w) => w.charAt(0).toUpperCase() + w.slice(1))
-				.join(" ");
+		let fileData: FileToProcess;
+		try {
+			fileData = {
+				...entry,
+				mermaidBlocks: [],
+				assets: await loadEntryAssets(entry),
+				bibliography: readBibliography(entry),
+				links: new Map(linkedSlugs(entry.markdown, slug).map((target) => [target, titles.get(target) ?? target])),
+			};
+		} catch (error) {
+			console.error(`✗ ${slug}: ${error}`);
+			results.push({
+				slug,
+				action: "error",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			continue;
 		}
 
-		const slug = frontmatter.slug || deriveSlug(file);
+		// Assume every diagram renders; entries with failed diagrams never
+		// match and are retried below
+		const contentHash = computeContentHash(fileData, templateHash);
+		const item = planEntry(fileData, contentHash, remoteEntries.get(slug), options.force);
+		plan.push(item);
 
-		let publishDate: string;
-		if (frontmatter.publishDate instanceof Date) {
-			publishDate = frontmatter.publishDate.toISOString().split("T")[0];
-		} else if (typeof frontmatter.publishDate === "string") {
-			publishDate = frontmatter.publishDate;
-		} else {
-			publishDate = deriveDateFromFilename(basename(file));
+		if (item.action === "skip") {
+			results.push({ slug, action: "skipped", reason: item.reason });
+			continue;
 		}
+		planned.set(slug, item);
 
-		const contentHash = createHash("md5").update(rawContent).digest("hex");
+		if (!options.dryRun) {
+			fileData.mermaidBlocks = extractMermaidBlocks(fileData.markdown);
+			filesToProcess.push(fileData);
+		}
+	}
 
-		// Extract mermaid blocks
-		const { processedMarkdown, blocks } = extractMermaidBlocks(markdown);
-		allMermaidBlocks.push(...blocks);
+	for (const slug of options.only) {
+		if (!localSlugs.has(slug)) {
+			console.error(`✗ ${slug}: no journal file with this slug`);
+			results.push({ slug, action: "error", error: "no journal file with this slug" });
+		}
+	}
 
-		filesToProcess.push({
-			file,
-			filePath,
-			rawContent,
-			frontmatter,
-			slug,
-			publishDate,
-			contentHash,
-			markdown,
-			mermaidBlocks: blocks,
-			processedMarkdown,
-		});
+	// Deletions are only planned for a full run over a cleanly parsed tree,
+	// never while watching (a file mid-rename would look deleted)
+	if (options.only.length === 0 && !options.watch) {
+		for (const [remoteSlug, remote] of remoteEntries) {
+			if (!remote.deleted && !localSlugs.has(remoteSlug)) {
+				plan.push({ slug: remoteSlug, action: "delete", reason: "no matching file in journal/" });
+			}
+		}
+	}
+
+	const deletions = plan.filter((item) => item.action === "delete");
+	const refuse = (reason: string) => {
+		for (const item of deletions) {
+			item.action = "refused";
+			item.reason = `${item.reason}; ${reason}`;
+		}
+		deletions.length = 0;
+	};
+	if (readErrors > 0 && deletions.length > 0) {
+		console.error(`Warning: not deleting ${deletions.length} entries because ${readErrors} files failed to parse`);
+		refuse("not deleted while files fail to parse");
+	}
+	if (deletions.length > PRUNE_LIMIT && !options.allowPrune) {
+		console.error(
+			`✗ Refusing to delete ${deletions.length} entries (limit ${PRUNE_LIMIT}); ` +
+				`check the journal/ checkout or re-run with --allow-prune`
+		);
+		for (const item of deletions) {
+			results.push({
+				slug: item.slug,
+				action: "error",
+				reason: item.reason,
+				error: "deletion refused without --allow-prune",
+			});
+		}
+		refuse("deletion refused without --allow-prune");
+	}
+
+	if (options.dryRun) {
+		log("");
+		for (const item of plan) {
+			log(formatPlanItem(item));
+		}
+
+		const summary = {
+			create: plan.filter((i) => i.action === "create").length,
+			update: plan.filter((i) => i.action === "update").length,
+			skip: plan.filter((i) => i.action === "skip").length,
+			delete: deletions.length,
+			refused: plan.filter((i) => i.action === "refused").length,
+			errors: results.filter((r) => r.action === "error").length,
+		};
+		log("\n" + "═".repeat(50));
+		log("Plan:");
+		log(`  Create:  ${summary.create}`);
+		log(`  Update:  ${summary.update}`);
+		log(`  Skip:    ${summary.skip}`);
+		log(`  Delete:  ${summary.delete}`);
+		log(`  Refused: ${summary.refused}`);
+		log(`  Errors:  ${summary.errors}`);
+
+		if (options.json) {
+			console.log(
+				JSON.stringify({ dryRun: true, plan, results, summary, diagnostics: jsonDiagnostics(diagnostics) }, null, 2)
+			);
+		}
+		return summary.errors > 0 ? EXIT_ENTRY_ERRORS : EXIT_OK;
+	}
+
+	const skippedCount = plan.filter((item) => item.action === "skip").length;
+	if (skippedCount > 0) {
+		log(`   ${skippedCount} unchanged, ${filesToProcess.length} to build\n`);
 	}
 
 	// PHASE 2: Render all mermaid diagrams in parallel
+	const allMermaidBlocks = filesToProcess.flatMap((f) => f.mermaidBlocks);
 	if (allMermaidBlocks.length > 0) {
 		const uniqueCount = new Set(allMermaidBlocks.map(b => b.hash)).size;
-		console.log(`🎨 Rendering ${uniqueCount} unique diagrams...`);
+		log(`🎨 Rendering ${uniqueCount} unique diagrams...`);
 	}
 	const diagramResults = await renderAllDiagrams(allMermaidBlocks);
 	const successCount = [...diagramResults.values()].filter(Boolean).length;
 	if (allMermaidBlocks.length > 0) {
-		console.log(`   ✓ ${successCount}/${diagramResults.size} diagrams ready\n`);
+		log(`   ✓ ${successCount}/${diagramResults.size} diagrams ready\n`);
 	}
 
-	// PHASE 3: Process files in parallel (compile Typst, upload to Convex)
-	const localSlugs = new Set<string>();
+	// Web SVGs are optional: the page renders any that are missing client-side
+	try {
+		const uploaded = await uploadDiagrams(client, allMermaidBlocks);
+		if (uploaded > 0) {
+			log(`   ↑ ${uploaded} diagram SVGs uploaded\n`);
+		}
+	} catch (error) {
+		console.error(`  ⚠ Could not upload diagram SVGs: ${error}`);
+	}
 
+	// PHASE 3: Process files in parallel (compile Typst, upload to Convex)
 	const processFile = async (fileData: FileToProcess): Promise<SyncResult> => {
-		const { slug, frontmatter, publishDate, contentHash, processedMarkdown, markdown } = fileData;
-		localSlugs.add(slug);
+		const { slug, markdown, mermaidBlocks } = fileData;
+		const reason = planned.get(slug)?.reason;
 
 		try {
-			const typstContent = markdownToTypst(processedMarkdown, frontmatter, diagramResults);
-			const typstPath = join(CONTENT_DIR, `.tmp-${slug}.typ`);
-			await writeFile(typstPath, typstContent);
-
-			const pdfPath = join(pdfDir, `${slug}.pdf`);
-			execSync(
-				`typst compile --root "${process.cwd()}" "${typstPath}" "${pdfPath}"`,
-				{ stdio: "pipe" }
-			);
-
-			const pdfStats = await stat(pdfPath);
-			const pdfBuffer = await readFile(pdfPath);
+			const failedDiagrams = mermaidBlocks
+				.filter((block) => !diagramResults.get(block.hash))
+				.map((block) => block.hash);
+			const contentHash = computeContentHash(fileData, templateHash, failedDiagrams);
+
+			// Diagrams that failed last time still fail: nothing new to upload
+			const remote = remoteEntries.get(slug);
+			if (!options.force && !remote?.deleted && remote?.contentHash === contentHash) {
+				return { slug, action: "skipped", reason: "unchanged" };
+			}
 
-			const uploadUrl = await client.mutation(
-				api.journal.generateUploadUrl,
-				{}
-			);
-			const uploadResponse = await fetch(uploadUrl, {
-				method: "POST",
-				headers: { "Content-Type": "application/pdf" },
-				body: pdfBuffer,
-			});
+			const assetUrls = await uploadAssets(client, slug, fileData.assets);
 
-			if (!uploadResponse.ok) {
-				throw new Error(`Upload failed: ${uploadResponse.statusText}`);
+			const pdfPath = join(pdfDir, `${slug}.pdf`);
+			const built = manifest.entries[slug];
+			const reusable =
+				!options.force &&
+				built?.contentHash === contentHash &&
+				(await fileExists(built.pdfPath)) &&
+				(!built.thumbnailPath || (await fileExists(built.thumbnailPath)));
+
+			let thumbnailPath: string | undefined = join(pdfDir, `${slug}.png`);
+			let pageCount: number | undefined;
+			if (reusable) {
+				thumbnailPath = built.thumbnailPath;
+				pageCount = built.pageCount;
+			} else {
+				const typstContent = markdownToTypst(fileData, diagramResults, assetUrls);
+				const typstPath = join(CONTENT_DIR, `.tmp-${slug}.typ`);
+				await writeFile(typstPath, typstContent);
+
+				try {
+					execSync(
+						`typst compile --root "${process.cwd()}" "${typstPath}" "${pdfPath}"`,
+						{ stdio: "pipe" }
+					);
+					// First page only, for preview cards; the entry is fine without one
+					try {
+						execSync(
+							`typst compile --root "${process.cwd()}" --format png --pages 1 --ppi ${THUMBNAIL_PPI} "${typstPath}" "${thumbnailPath}"`,
+							{ stdio: "pipe" }
+						);
+					} catch (error) {
+						console.error(`  ⚠ ${slug}: no thumbnail: ${formatError(error)}`);
+						thumbnailPath = undefined;
+					}
+					try {
+						pageCount = typstPageCount(typstPath);
+					} catch (error) {
+						console.error(`  ⚠ ${slug}: no page count: ${formatError(error)}`);
+					}
+				} finally {
+					await unlink(typstPath).catch(() => {});
+				}
 			}
 
-			const { storageId } = (await uploadResponse.json()) as {
-				storageId: Id<"_storage">;
+			const pdfStats = await stat(pdfPath);
+			manifest.entries[slug] = {
+				contentHash,
+				pdfPath,
+				thumbnailPath,
+				fileSize: pdfStats.size,
+				pageCount,
+				builtAt: reusable ? built.builtAt : new Date().toISOString(),
 			};
 
-			const result = await client.mutation(api.journal.upsert, {
+			const storageId = await uploadFile(client, pdfPath, "application/pdf");
+			const thumbnailStorageId = thumbnailPath
+				? await uploadFile(client, thumbnailPath, "image/png")
+				: undefined;
+
+			const result = await client.mutation(internal.journal.upsert, {
 				slug,
-				title: frontmatter.title,
-				description: frontmatter.description,
-				content: markdown,
+				...entryMetadata(fileData),
+				content: rewriteAssetUrls(markdown, assetUrls),
 				pdfStorageId: storageId,
-				publishDate,
-				published: frontmatter.published ?? false,
-				featured: frontmatter.featured,
-				tags: frontmatter.tags,
-				category: frontmatter.category,
+				thumbnailStorageId,
 				fileSize: pdfStats.size,
+				pageCount,
 				contentHash,
+				diagrams: [...new Set(mermaidBlocks.map((block) => block.hash))],
+				references: citedReferences(fileData),
+				links: [...fileData.links.keys()],
+				commit: fileCommit(fileData.filePath),
 			});
 
-			await unlink(typstPath).catch(() => {});
+			const { deleted } = await client.mutation(internal.assets.prune, {
+				slug,
+				keep: fileData.assets.map((asset) => asset.path),
+			});
+			if (deleted.length > 0) {
+				log(`  🗑 ${slug}: removed ${deleted.length} unreferenced assets`);
+			}
 
 			const icon = result.action === "created" ? "✓" : "↻";
-			console.log(`${icon} ${slug}: ${result.action}`);
+			log(`${icon} ${slug}: ${result.action}`);
 
-			return { slug, action: result.action };
+			return { slug, action: result.action, reason };
 		} catch (error) {
-			console.error(`✗ ${slug}: ${error}`);
+			console.error(`✗ ${slug}: ${formatError(error)}`);
 			return {
 				slug,
 				action: "error",
+				reason,
 				error: error instanceof Error ? error.message : String(error),
 			};
 		}
@@ -690,37 +1019,45 @@ async function main() {
 		filesToProcess.map((fileData) => FILE_LIMIT(() => processFile(fileData)))
 	);
 	results.push(...fileResults);
+	await saveManifest(MANIFEST_PATH, manifest);
 
-	// PHASE 4: Clean up deleted entries
-	try {
-		const remoteSlugs = await client.query(api.journal.listSlugs, {});
-		for (const remoteSlug of remoteSlugs) {
-			if (!localSlugs.has(remoteSlug)) {
-				await client.mutation(api.journal.remove, {
-					slug: remoteSlug,
-				});
-				results.push({ slug: remoteSlug, action: "deleted" });
-				console.log(`🗑 ${remoteSlug}: deleted`);
-			}
+	// PHASE 4: Move deleted entries to the trash (restorable with `bun run trash restore`)
+	for (const item of deletions) {
+		try {
+			await client.mutation(internal.journal.remove, { slug: item.slug });
+			results.push({ slug: item.slug, action: "deleted", reason: item.reason });
+			log(`🗑 ${item.slug}: moved to trash`);
+		} catch (error) {
+			console.error(`✗ ${item.slug}: could not delete: ${error}`);
+			results.push({
+				slug: item.slug,
+				action: "error",
+				reason: item.reason,
+				error: error instanceof Error ? error.message : String(error),
+			});
 		}
-	} catch (error) {
-		console.error("Warning: Could not check for deletions:", error);
 	}
 
-	console.log("\n" + "═".repeat(50));
-	console.log("Sync Complete:");
-	console.log(
-		`  Created: ${results.filter((r) => r.action === "created").length}`
-	);
-	console.log(
-		`  Updated: ${results.filter((r) => r.action === "updated").length}`
-	);
-	console.log(
-		`  Deleted: ${results.filter((r) => r.action === "deleted").length}`
-	);
-	console.log(
-		`  Errors:  ${results.filter((r) => r.action === "error").length}`
-	);
+	const summary = summarize(results);
+	log("\n" + "═".repeat(50));
+	log("Sync Complete:");
+	log(`  Created: ${summary.created}`);
+	log(`  Updated: ${summary.updated}`);
+	log(`  Skipped: ${summary.skipped}`);
+	log(`  Deleted: ${summary.deleted}`);
+	log(`  Errors:  ${summary.errors}`);
+
+	if (options.json) {
+		console.log(
+			JSON.stringify({ dryRun: false, plan, results, summary, diagnostics: jsonDiagnostics(diagnostics) }, null, 2)
+		);
+	}
+	return summary.errors > 0 ? EXIT_ENTRY_ERRORS : EXIT_OK;
 }
 
-main().catch(console.error);
+main()
+	.then((code) => process.exit(code))
+	.catch((error) => {
+		console.error(error);
+		process.exit(EXIT_FATAL);
+	});
@@ -0,0 +1,14 @@
+#quote(block: true)[
+#strong[SSR + Real-time]: The `initialData` option prevents loading flashes on page load.
+]
+
+#quote(block: true)[
+A quote that spans
+several lines
+
+and two paragraphs.
+
+#quote(block: true)[
+With a nested quote.
+]
+]
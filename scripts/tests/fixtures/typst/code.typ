@@ -0,0 +1,25 @@
+```typescript
+const entries = $derived(journalQuery.data || []);
+```
+
+```bash
+bun run sync --dry-run
+```
+
+```
+no language
+```
+
+````markdown
+```ts
+nested fence
+```
+````
+
+#figure(
+  image("diagrams/diagram.png", width: 80%),
+  kind: "diagram",
+  supplement: none,
+)
+
+#rect(width: 100%, height: 3cm, stroke: gray)[_Diagram could not be rendered_]
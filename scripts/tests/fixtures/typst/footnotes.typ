@@ -0,0 +1,3 @@
+Convex is reactive#footnote[Queries re-run when their data changes.] and typed#footnote[Generated from the #strong[schema].].
+
+A missing footnote\[^missing\] is left as text.
@@ -0,0 +1,11 @@
+= Overview
+
+== Architecture
+
+=== Data model
+
+==== Indexes
+
+===== Compound indexes
+
+====== Notes
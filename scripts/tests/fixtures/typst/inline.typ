@@ -0,0 +1,14 @@
+Plain text with #strong[bold], #emph[emphasis], #strike[struck] and `inline code`.
+
+A #strong[#link("https://convex.dev")[bold link]] next to #emph[#link("https://svelte.dev")[an emphasized one]], and #strong[bold]#link("https://example.com")[a link] touching it.
+
+Code with backticks: #raw("a `tick` here").
+
+Reserved characters: \#hash, \$dollar, \@at, a \< b \> c, \[brackets\], \~tilde, snake\_case and a \/\/ comment.
+
+Entities & quotes: "double" and 'single' & more.
+
+A hard break \
+on the next line.
+
+Bare URL #link("https://robelest.com") stays a link.
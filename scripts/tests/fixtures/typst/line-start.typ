@@ -0,0 +1,24 @@
+\= not a heading
+
+\+ not a list item
+
+\- not a bullet
+
+\/ not a term: list
+
+2024\. was a good year
+
+#table(
+  columns: 2,
+  align: (auto, auto),
+  inset: 8pt,
+  table.header([*Operator*], [*Meaning*]),
+  [\= x], [assign],
+  [\/ y: z], [divide],
+  [\+ 1], [add],
+  [\- 1], [subtract],
+  [3\. three], [ordinal],
+)
+
+Wrapped text that continues
+\= on a line starting with equals.
@@ -0,0 +1,18 @@
+See #link("https://robelestifanos.com/journal/bridge-reactive-data")[Bridge: Reactive Data] and #link("https://robelestifanos.com/journal/tsp-data-contracts#schema")[the contracts].
+
+A #link("https://assets.example.com/notes.pdf")[relative link] and an #link("https://convex.dev")[absolute one].
+
+#figure(
+  image("/journal/images/flow.png", alt: "Local diagram"),
+  caption: [Local diagram],
+)
+
+Inline #box(image("/journal/images/icon.png", alt: "icon")) image.
+
+#link("https://example.com/remote.png")[Remote]
+
+A citation #cite(label("knuth1984")) and one with a locator #cite(label("lamport1994"), supplement: [p. 12]).
+
+#line(length: 100%)
+
+After the rule.
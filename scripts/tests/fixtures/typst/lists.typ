@@ -0,0 +1,36 @@
+- First item
+- Second item with #strong[bold]
+  - Nested item
+  - Another nested item
+    - Third level
+- Back to the top
+
+1. Install dependencies
+2. Run the sync
+   1. Lint first
+   2. Then compile
+3. Deploy
+
+Then, separately:
+
+5. Starts at five
+6. Continues at six
+
+Tasks:
+
+- ☑ Done task
+- ☐ Open task
+
+Loose tasks:
+
+- ☑ Done loose task
+
+- ☐ Open loose task
+
+Loose items:
+
+- Loose item one
+
+- Loose item two
+
+  With a second paragraph.
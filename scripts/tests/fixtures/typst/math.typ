@@ -0,0 +1,3 @@
+Inline math $a^2 + b^2 = c^2$ in a sentence.
+
+$ frac(a, b) $
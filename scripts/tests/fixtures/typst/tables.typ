@@ -0,0 +1,16 @@
+#table(
+  columns: 3,
+  align: (left, center, right),
+  inset: 8pt,
+  table.header([*Feature*], [*Status*], [*Count*]),
+  [#strong[Sync]], [`done`], [12],
+  [#link("https://example.com")[Docs]], [pending], [3],
+)
+
+#table(
+  columns: 2,
+  align: (auto, auto),
+  inset: 8pt,
+  table.header([*Plain*], [*Header*]),
+  [a], [b],
+)
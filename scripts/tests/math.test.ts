@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { convertLatexToTypstMath } from "../lib/math";
+
+/**
+ * Corpus for the LaTeX → Typst math translator: each case is a LaTeX
+ * input as the website's KaTeX sees it, the Typst it must produce, and
+ * the warnings it must report (none unless listed).
+ */
+
+interface MathCase {
+	latex: string;
+	typst: string;
+	warnings?: string[];
+}
+
+const CORPUS: Record<string, MathCase[]> = {
+	"scripts and symbols": [
+		{ latex: "a^2 + b^2 = c^2", typst: "a^2 + b^2 = c^2" },
+		{ latex: "x_{i,j}", typst: "x_(i , j)" },
+		{ latex: "e^{i\\pi} + 1 = 0", typst: "e^(i pi) + 1 = 0" },
+		{ latex: "\\alpha + \\beta = \\Gamma", typst: "alpha + beta = Gamma" },
+		{ latex: "a \\neq b \\implies c", typst: "a eq.not b arrow.r.double.long c" },
+		{ latex: "\\text{if } x \\leq y", typst: '"if " x lt.eq y' },
+		{ latex: "\\not\\in", typst: "in.not" },
+		{ latex: "\\{1, 2\\}", typst: "\\{ 1 , 2 \\}" },
+		{ latex: "a, b; c", typst: "a , b ; c" },
+	],
+	"fractions and roots": [
+		{ latex: "\\frac{a}{b}", typst: "frac(a, b)" },
+		{ latex: "\\frac{a^{2}}{b}", typst: "frac(a^2, b)" },
+		{ latex: "\\frac{\\frac{1}{x}}{1 + \\frac{1}{y}}", typst: "frac(frac(1, x), 1 + frac(1, y))" },
+		{ latex: "\\sqrt{x}", typst: "sqrt(x)" },
+		{ latex: "\\sqrt[3]{x + 1}", typst: "root(3, x + 1)" },
+		{ latex: "\\sqrt{\\frac{a}{b}}", typst: "sqrt(frac(a, b))" },
+		{ latex: "\\frac{1}{\\sqrt{2}}", typst: "frac(1, sqrt(2))" },
+		{ latex: "\\sum_{i=1}^{n} i = \\frac{n(n+1)}{2}", typst: "sum_(i = 1)^n i = frac(n ( n + 1 ), 2)" },
+	],
+	"left and right": [
+		{ latex: "\\left( \\frac{a}{b} \\right)", typst: "lr(( frac(a, b) ))" },
+		{ latex: "\\left[ x \\right]", typst: "lr([ x ])" },
+		{ latex: "\\left\\{ x \\right\\}", typst: "lr(\\{ x \\})" },
+		{ latex: "\\left| x \\right|", typst: "lr(| x |)" },
+		{ latex: "\\left. \\frac{dy}{dx} \\right|_{x=0}", typst: "lr(frac(d y, d x) |)_(x = 0)" },
+	],
+	environments: [
+		{
+			latex: "\\begin{aligned} a &= b + c \\\\ d &= e \\end{aligned}",
+			typst: "a & = b + c \\\n  d & = e",
+		},
+		{
+			latex: "f(x) = \\begin{cases} 1 & x > 0 \\\\ 0 & \\text{otherwise} \\end{cases}",
+			typst: 'f ( x ) = cases(1 & x > 0, 0 & "otherwise")',
+		},
+		{ latex: "\\begin{pmatrix} a & b \\\\ c & d \\end{pmatrix}", typst: "mat(a, b; c, d)" },
+		{ latex: "\\begin{bmatrix} 1 & 0 \\\\ 0 & 1 \\end{bmatrix}", typst: 'mat(delim: "[", 1, 0; 0, 1)' },
+	],
+	"fonts, accents and operators": [
+		{ latex: "\\mathbb{R}^n", typst: "bb(R)^n" },
+		{ latex: "\\mathbf{v} \\cdot \\mathcal{F}", typst: "bold(v) dot.op cal(F)" },
+		{ latex: "\\hat{x} + \\vec{v} + \\overline{z}", typst: "hat(x) + arrow(v) + overline(z)" },
+		{ latex: "\\int_0^\\infty e^{-x} \\, dx", typst: "integral_0^infinity e^(- x) thin d x" },
+		{ latex: "\\lim_{x \\to 0} \\frac{\\sin x}{x} = 1", typst: "lim_(x arrow.r 0) frac(sin x, x) = 1" },
+		{ latex: "\\operatorname{argmax}_x f(x)", typst: 'op("argmax")_x f ( x )' },
+	],
+	"unknown and unsupported": [
+		{ latex: "\\Beta", typst: '"\\\\Beta"', warnings: ["unknown LaTeX command \\Beta"] },
+		{ latex: "\\foo{x}", typst: '"\\\\foo" x', warnings: ["unknown LaTeX command \\foo"] },
+		{ latex: "\\color{red}{x}", typst: "x", warnings: ["\\color is not supported in the PDF"] },
+		{ latex: "\\tag{1} x", typst: "x", warnings: ["\\tag is not supported in the PDF"] },
+		{ latex: "\\frac{a}{b", typst: "frac(a, b)", warnings: ["expected } in math"] },
+		{ latex: "x}", typst: "x", warnings: ["unbalanced } in math"] },
+	],
+};
+
+describe("convertLatexToTypstMath", () => {
+	for (const [group, cases] of Object.entries(CORPUS)) {
+		describe(group, () => {
+			for (const { latex, typst, warnings = [] } of cases) {
+				test(latex, () => {
+					expect(convertLatexToTypstMath(latex)).toEqual({ typst, warnings });
+				});
+			}
+		});
+	}
+});
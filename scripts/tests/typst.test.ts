@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test";
+import { readdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { convertMarkdownBodyToTypst } from "../lib/typst";
+
+/**
+ * Golden files for the Markdown → Typst converter: every
+ * fixtures/typst/<name>.md is converted and compared with <name>.typ.
+ * After an intended change, rewrite the expected output with
+ * `UPDATE_GOLDEN=1 bun test` and review the diff.
+ */
+
+const FIXTURES_DIR = join(import.meta.dir, "fixtures", "typst");
+
+const WIKI_TITLES: Record<string, string> = {
+	"bridge-reactive-data": "Bridge: Reactive Data",
+};
+
+function convert(markdown: string): { typst: string; warnings: string[] } {
+	const warnings: string[] = [];
+	const typst = convertMarkdownBodyToTypst(markdown, {
+		// The second diagram stands in for one that failed to render
+		resolveDiagram: (source) => (source.includes("missing") ? null : "diagrams/diagram.png"),
+		resolveImage: (href) => href.replace(/^\.\//, "/journal/"),
+		resolveLink: (href) => (href.endsWith(".pdf") ? `https://assets.example.com/${href.slice(2)}` : href),
+		wikiLinkTitle: (slug) => WIKI_TITLES[slug],
+		onWarning: (message) => warnings.push(message),
+	});
+	return { typst, warnings };
+}
+
+describe("convertMarkdownBodyToTypst", () => {
+	const fixtures = readdirSync(FIXTURES_DIR)
+		.filter((file) => file.endsWith(".md"))
+		.map((file) => file.slice(0, -".md".length));
+
+	for (const name of fixtures) {
+		test(name, () => {
+			const { typst, warnings } = convert(readFileSync(join(FIXTURES_DIR, `${name}.md`), "utf-8"));
+			const expectedPath = join(FIXTURES_DIR, `${name}.typ`);
+			if (process.env.UPDATE_GOLDEN) {
+				writeFileSync(expectedPath, typst);
+			}
+			expect(typst).toBe(readFileSync(expectedPath, "utf-8"));
+			expect(warnings).toEqual([]);
+		});
+	}
+});
@@ -0,0 +1,55 @@
+#!/usr/bin/env bun
+
+import { internal } from "../convex/_generated/api";
+import { syncClientFromEnv } from "./lib/convex";
+
+const USAGE = "Usage: trash [list] | trash restore <slug>...";
+
+// Exit codes: 0 = ok, 1 = an entry could not be restored, 2 = could not run
+async function main(): Promise<number> {
+	const [command = "list", ...slugs] = process.argv.slice(2);
+
+	// The trash lists drafts too, so listing is signed like sync
+	const env = syncClientFromEnv();
+	if ("error" in env) {
+		console.error(`Error: ${env.error}`);
+		return 2;
+	}
+	const { client } = env;
+
+	if (command === "list") {
+		const trash = await client.query(internal.journal.listTrash, {});
+		if (trash.length === 0) {
+			console.log("Trash is empty.");
+			return 0;
+		}
+		for (const entry of trash) {
+			console.log(`${entry.slug}  "${entry.title}"  deleted ${entry.deletedAt.slice(0, 10)}, purged after ${entry.purgeAfter.slice(0, 10)}`);
+		}
+		return 0;
+	}
+
+	if (command === "restore" && slugs.length > 0) {
+		let failed = 0;
+		for (const slug of slugs) {
+			const result = await client.mutation(internal.journal.restore, { slug });
+			if (result.action === "restored") {
+				console.log(`✓ ${slug}: restored`);
+			} else {
+				failed++;
+				console.error(`✗ ${slug}: not in the trash`);
+			}
+		}
+		return failed > 0 ? 1 : 0;
+	}
+
+	console.error(USAGE);
+	return 2;
+}
+
+main()
+	.then((code) => process.exit(code))
+	.catch((error) => {
+		console.error(error);
+		process.exit(2);
+	});
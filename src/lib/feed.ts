@@ -0,0 +1,170 @@
+import { ConvexHttpClient } from 'convex/browser';
+import type { FunctionReturnType } from 'convex/server';
+import { PUBLIC_CONVEX_URL } from '$env/static/public';
+import { api } from '../../convex/_generated/api.js';
+import { renderMarkdown } from '$lib/utils/markdown';
+import { JOURNAL_DESCRIPTION, JOURNAL_TITLE, SITE_AUTHOR, SITE_URL } from '$lib/site';
+
+/**
+ * RSS 2.0, Atom and JSON Feed versions of the journal, prerendered to
+ * /feed.xml, /atom.xml and /feed.json. Every published entry is included
+ * (the same entries, in the same order, as journal.list) with its full
+ * HTML, tags as categories and the PDF as an enclosure. Item ids are the
+ * entry URLs, so they stay stable across syncs.
+ */
+
+type FeedEntry = FunctionReturnType<typeof api.journal.feed>[number];
+
+export interface FeedItem {
+	id: string;
+	url: string;
+	title: string;
+	description?: string;
+	html: string;
+	tags: string[];
+	published: Date;
+	updated: Date;
+	pdf: { url: string; size: number };
+}
+
+export async function loadFeedItems(): Promise<FeedItem[]> {
+	const client = new ConvexHttpClient(PUBLIC_CONVEX_URL);
+	const entries = await client.query(api.journal.feed, {});
+	return entries.map(toFeedItem);
+}
+
+function toFeedItem(entry: FeedEntry): FeedItem {
+	const url = `${SITE_URL}/journal/${entry.slug}`;
+	const html = renderMarkdown(entry.content, {
+		diagrams: entry.diagramImages,
+		references: entry.references,
+		linkTitles: entry.linkTitles
+	});
+	const published = new Date(`${entry.publishDate}T00:00:00Z`);
+	return {
+		id: url,
+		url,
+		title: entry.title,
+		description: entry.description,
+		html: absoluteUrls(html, url),
+		tags: entry.tags ?? [],
+		published,
+		updated: entry.updatedAt ? new Date(entry.updatedAt) : published,
+		pdf: { url: `${url}.pdf`, size: entry.fileSize ?? 0 }
+	};
+}
+
+// Feed readers resolve relative links against the feed, not the entry
+function absoluteUrls(html: string, pageUrl: string): string {
+	return html.replace(/\b(href|src)="([/#][^"]*)"/g, (_, attribute: string, path: string) =>
+		`${attribute}="${path.startsWith('#') ? pageUrl : SITE_URL}${path}"`
+	);
+}
+
+function lastUpdated(items: FeedItem[]): Date {
+	return new Date(Math.max(0, ...items.map((item) => item.updated.getTime())));
+}
+
+export function rssFeed(items: FeedItem[]): string {
+	const entries = items.map(
+		(item) => `		<item>
+			<title>${escapeXml(item.title)}</title>
+			<link>${item.url}</link>
+			<guid isPermaLink="true">${item.id}</guid>
+			<pubDate>${item.published.toUTCString()}</pubDate>
+			${item.description ? `<description>${escapeXml(item.description)}</description>` : ''}
+			<content:encoded>${cdata(item.html)}</content:encoded>
+			${item.tags.map((tag) => `<category>${escapeXml(tag)}</category>`).join('\n\t\t\t')}
+			<enclosure url="${escapeXml(item.pdf.url)}" length="${item.pdf.size}" type="application/pdf" />
+		</item>`
+	);
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+	<channel>
+		<title>${escapeXml(JOURNAL_TITLE)}</title>
+		<link>${SITE_URL}/journal</link>
+		<description>${escapeXml(JOURNAL_DESCRIPTION)}</description>
+		<language>en</language>
+		<lastBuildDate>${lastUpdated(items).toUTCString()}</lastBuildDate>
+		<atom:link href="${SITE_URL}/feed.xml" rel="self" type="application/rss+xml" />
+${entries.join('\n')}
+	</channel>
+</rss>
+`;
+}
+
+export function atomFeed(items: FeedItem[]): string {
+	const entries = items.map(
+		(item) => `	<entry>
+		<id>${item.id}</id>
+		<title>${escapeXml(item.title)}</title>
+		<link rel="alternate" type="text/html" href="${item.url}" />
+		<link rel="enclosure" type="application/pdf" href="${escapeXml(item.pdf.url)}" length="${item.pdf.size}" />
+		<published>${item.published.toISOString()}</published>
+		<updated>${item.updated.toISOString()}</updated>
+		${item.description ? `<summary>${escapeXml(item.description)}</summary>` : ''}
+		<content type="html">${escapeXml(item.html)}</content>
+		${item.tags.map((tag) => `<category term="${escapeXml(tag)}" />`).join('\n\t\t')}
+	</entry>`
+	);
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+	<id>${SITE_URL}/journal</id>
+	<title>${escapeXml(JOURNAL_TITLE)}</title>
+	<subtitle>${escapeXml(JOURNAL_DESCRIPTION)}</subtitle>
+	<link rel="alternate" type="text/html" href="${SITE_URL}/journal" />
+	<link rel="self" type="application/atom+xml" href="${SITE_URL}/atom.xml" />
+	<author><name>${escapeXml(SITE_AUTHOR)}</name></author>
+	<updated>${lastUpdated(items).toISOString()}</updated>
+${entries.join('\n')}
+</feed>
+`;
+}
+
+export function jsonFeed(items: FeedItem[]): string {
+	return JSON.stringify(
+		{
+			version: 'https://jsonfeed.org/version/1.1',
+			title: JOURNAL_TITLE,
+			home_page_url: `${SITE_URL}/journal`,
+			feed_url: `${SITE_URL}/feed.json`,
+			description: JOURNAL_DESCRIPTION,
+			language: 'en',
+			authors: [{ name: SITE_AUTHOR, url: SITE_URL }],
+			items: items.map((item) => ({
+				id: item.id,
+				url: item.url,
+				title: item.title,
+				summary: item.description,
+				content_html: item.html,
+				tags: item.tags,
+				date_published: item.published.toISOString(),
+				date_modified: item.updated.toISOString(),
+				attachments: [
+					{
+						url: item.pdf.url,
+						mime_type: 'application/pdf',
+						title: `${item.title} (PDF)`,
+						size_in_bytes: item.pdf.size || undefined
+					}
+				]
+			}))
+		},
+		null,
+		'\t'
+	);
+}
+
+function escapeXml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;');
+}
+
+// A CDATA section cannot contain "]]>", so split it across two sections
+function cdata(text: string): string {
+	return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
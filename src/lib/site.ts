@@ -0,0 +1,17 @@
+export const SITE_URL = 'https://robelestifanos.com';
+export const SITE_AUTHOR = 'Robel Estifanos';
+/** Fallback Open Graph image for pages without their own */
+export const SITE_IMAGE = `${SITE_URL}/logo512.png`;
+
+export const JOURNAL_TITLE = 'Journal — Robel Estifanos';
+export const JOURNAL_DESCRIPTION =
+	'Writing on software design, cognitive load, and building durable systems.';
+
+/** robots.txt groups; the sitemap line is added after them */
+export const ROBOTS: { userAgent: string; allow?: string[]; disallow: string[] }[] = [
+	{
+		userAgent: '*',
+		// Draft previews are unlisted and sent with noindex as well
+		disallow: ['/preview']
+	}
+];
@@ -0,0 +1,99 @@
+export interface DiffLine {
+	type: 'same' | 'added' | 'removed';
+	text: string;
+}
+
+export type DiffHunk =
+	| { type: 'lines'; lines: DiffLine[] }
+	| { type: 'skipped'; count: number };
+
+// Largest LCS table (in cells, 4 bytes each) built in the browser; past it
+// the changed middle is shown as removed, then added
+const MAX_TABLE_CELLS = 4_000_000;
+
+/**
+ * Line diff of two texts (longest common subsequence). Common leading and
+ * trailing lines are trimmed first, so typical edits stay cheap; a middle
+ * too large to compare line by line is shown as a plain replacement.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+	const a = before.split('\n');
+	const b = after.split('\n');
+
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) start++;
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+
+	const middleA = a.slice(start, endA);
+	const middleB = b.slice(start, endB);
+	const rows = middleA.length + 1;
+	const cols = middleB.length + 1;
+	const lines: DiffLine[] = a.slice(0, start).map((text) => ({ type: 'same', text }));
+
+	if (rows * cols > MAX_TABLE_CELLS) {
+		for (const text of middleA) lines.push({ type: 'removed', text });
+		for (const text of middleB) lines.push({ type: 'added', text });
+		for (const text of a.slice(endA)) lines.push({ type: 'same', text });
+		return lines;
+	}
+
+	// lengths[i * cols + j] = LCS length of middleA[i..] and middleB[j..]
+	const lengths = new Uint32Array(rows * cols);
+	for (let i = middleA.length - 1; i >= 0; i--) {
+		for (let j = middleB.length - 1; j >= 0; j--) {
+			lengths[i * cols + j] =
+				middleA[i] === middleB[j]
+					? lengths[(i + 1) * cols + j + 1] + 1
+					: Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+		}
+	}
+
+	let i = 0;
+	let j = 0;
+	while (i < middleA.length || j < middleB.length) {
+		if (i < middleA.length && j < middleB.length && middleA[i] === middleB[j]) {
+			lines.push({ type: 'same', text: middleA[i] });
+			i++;
+			j++;
+		} else if (
+			i < middleA.length &&
+			(j === middleB.length || lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1])
+		) {
+			lines.push({ type: 'removed', text: middleA[i++] });
+		} else {
+			lines.push({ type: 'added', text: middleB[j++] });
+		}
+	}
+	for (const text of a.slice(endA)) lines.push({ type: 'same', text });
+	return lines;
+}
+
+/** Collapse unchanged runs, keeping `context` lines around each change */
+export function toHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+	const keep = lines.map(() => false);
+	lines.forEach((line, index) => {
+		if (line.type === 'same') return;
+		for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) {
+			keep[k] = true;
+		}
+	});
+
+	const hunks: DiffHunk[] = [];
+	for (let index = 0; index < lines.length; index++) {
+		const last = hunks[hunks.length - 1];
+		if (keep[index]) {
+			if (last?.type === 'lines') last.lines.push(lines[index]);
+			else hunks.push({ type: 'lines', lines: [lines[index]] });
+		} else if (last?.type === 'skipped') {
+			last.count++;
+		} else {
+			hunks.push({ type: 'skipped', count: 1 });
+		}
+	}
+	return hunks;
+}
@@ -1,4 +1,4 @@
-import { Marked } from 'marked';
+import { Marked, type Token, type Tokens } from 'marked';
 import katex from 'katex';
 
 // Create a new Marked instance with custom configuration
@@ -55,13 +55,250 @@ const mathExtension = {
 	},
 };
 
+// Footnotes
+// Definition: [^label]: text (continuation lines indented)
+// Reference:  [^label]
+const footnoteExtension = {
+	name: 'footnote',
+	level: 'block' as const,
+	start(src: string) {
+		return src.match(/^\[\^[^\]\s]+\]:/m)?.index;
+	},
+	tokenizer(this: { lexer: { inlineTokens(src: string): Token[] } }, src: string) {
+		const match = src.match(/^\[\^([^\]\s]+)\]:[ \t]*([^\n]*(?:\n(?: {2,}|\t)[^\n]*)*)\n*/);
+		if (match) {
+			const text = match[2].replace(/\n(?: {2,}|\t)/g, '\n').trim();
+			return {
+				type: 'footnote',
+				raw: match[0],
+				label: match[1],
+				text,
+				tokens: this.lexer.inlineTokens(text),
+			};
+		}
+		return undefined;
+	},
+	renderer(this: { parser: { parseInline(tokens: Token[]): string } }, token: Tokens.Generic) {
+		const label = escapeHtml(token.label);
+		return `<div class="footnote" id="fn-${label}"><a href="#fnref-${label}" class="footnote-label">${label}</a> ${this.parser.parseInline(token.tokens ?? [])}</div>`;
+	},
+};
+
+const footnoteRefExtension = {
+	name: 'footnoteRef',
+	level: 'inline' as const,
+	start(src: string) {
+		return src.indexOf('[^');
+	},
+	tokenizer(src: string) {
+		const match = src.match(/^\[\^([^\]\s]+)\](?!:)/);
+		if (match) {
+			return {
+				type: 'footnoteRef',
+				raw: match[0],
+				label: match[1],
+			};
+		}
+		return undefined;
+	},
+	renderer(token: { label: string }) {
+		const label = escapeHtml(token.label);
+		return `<sup class="footnote-ref"><a href="#fn-${label}" id="fnref-${label}">${label}</a></sup>`;
+	},
+};
+
+export interface DiagramImage {
+	url: string;
+	width: number;
+	height: number;
+}
+
+export interface Reference {
+	key: string;
+	/** Formatted reference, without the number */
+	text: string;
+	url?: string;
+}
+
+export interface RenderOptions {
+	/** Pre-rendered Mermaid SVGs keyed by diagramHash of the block source */
+	diagrams?: Record<string, DiagramImage>;
+	/** Bibliography entries for [@key] citations, numbered by first use */
+	references?: Reference[];
+	/** Titles of the entries [[slug]] links point to, used as link text */
+	linkTitles?: Record<string, string>;
+}
+
+// State for the renderMarkdown call in progress (parsing is synchronous)
+let currentDiagrams: Record<string, DiagramImage> = {};
+let currentReferences = new Map<string, Reference>();
+let citedKeys: string[] = [];
+let currentLinkTitles: Record<string, string> = {};
+let nextHeadingId = createHeadingIds();
+
+function citationNumber(key: string): number | null {
+	if (!currentReferences.has(key)) return null;
+	if (!citedKeys.includes(key)) citedKeys.push(key);
+	return citedKeys.indexOf(key) + 1;
+}
+
+function renderReferenceList(): string {
+	if (citedKeys.length === 0) return '';
+	const items = citedKeys.map((key) => {
+		const reference = currentReferences.get(key)!;
+		const url = reference.url
+			? ` <a href="${escapeHtml(reference.url)}">${escapeHtml(reference.url)}</a>`
+			: '';
+		return `<li id="ref-${escapeHtml(key)}">${escapeHtml(reference.text)}${url}</li>`;
+	});
+	return `<section class="references"><h2>References</h2><ol>${items.join('')}</ol></section>`;
+}
+
+/**
+ * Stable hash of a Mermaid block's source (cyrb53). Sync names and stores
+ * the pre-rendered SVG under it, so it must match in Bun and the browser.
+ */
+export function diagramHash(source: string): string {
+	let h1 = 0xdeadbeef;
+	let h2 = 0x41c6ce57;
+	for (let i = 0; i < source.length; i++) {
+		const ch = source.charCodeAt(i);
+		h1 = Math.imul(h1 ^ ch, 2654435761);
+		h2 = Math.imul(h2 ^ ch, 1597334677);
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+	return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+// Citations: [@key], [@key, p. 12], [@a; @b]
+// Keys follow Pandoc: letters, digits and internal punctuation. A following
+// ( [ or : means it is a link, e.g. [@handle](https://...)
+export interface CitationItem {
+	key: string;
+	locator?: string;
+}
+
+const CITATION_PATTERN = /^\[(@[\w][\w:.#$%&+?<>~/-]*(?:,[^\];\n]*)?(?:;\s*@[\w][\w:.#$%&+?<>~/-]*(?:,[^\];\n]*)?)*)\](?![(\[:])/;
+
+export function parseCitationItems(inner: string): CitationItem[] {
+	return inner.split(';').map((part) => {
+		const [key, ...locator] = part.trim().slice(1).split(',');
+		const text = locator.join(',').trim();
+		return text ? { key: key.trim(), locator: text } : { key: key.trim() };
+	});
+}
+
+const citationExtension = {
+	name: 'citation',
+	level: 'inline' as const,
+	start(src: string) {
+		return src.indexOf('[@');
+	},
+	tokenizer(src: string) {
+		const match = src.match(CITATION_PATTERN);
+		if (match) {
+			return {
+				type: 'citation',
+				raw: match[0],
+				items: parseCitationItems(match[1]),
+			};
+		}
+		return undefined;
+	},
+	renderer(token: { items: CitationItem[] }) {
+		const parts = token.items.map(({ key, locator }) => {
+			const number = citationNumber(key);
+			const link = number
+				? `<a href="#ref-${escapeHtml(key)}">${number}</a>`
+				: `<span class="citation-unknown" title="Unknown citation ${escapeHtml(key)}">?</span>`;
+			return locator ? `${link}, ${escapeHtml(locator)}` : link;
+		});
+		return `<span class="citation">[${parts.join('; ')}]</span>`;
+	},
+};
+
+/** URL fragment for a heading, e.g. "Sync & Storage" → "sync-storage" */
+export function headingId(text: string): string {
+	return text
+		.toLowerCase()
+		.replace(/<[^>]+>|&[a-z#0-9]+;/g, '')
+		.replace(/[^\p{L}\p{N}\s-]/gu, '')
+		.trim()
+		.replace(/\s+/g, '-');
+}
+
+/**
+ * Heading ids for one document, suffixing repeats (-1, -2, ...) so every
+ * id is unique. Sync validates [[slug#heading]] links with the same rules.
+ */
+export function createHeadingIds(): (text: string) => string {
+	const seen = new Map<string, number>();
+	return (text) => {
+		const base = headingId(text) || 'section';
+		const count = seen.get(base) ?? 0;
+		seen.set(base, count + 1);
+		return count === 0 ? base : `${base}-${count}`;
+	};
+}
+
+// Wiki links between entries: [[slug]], [[slug#heading]], [[slug|label]]
+// The heading may be written as its text or its id
+export interface WikiLink {
+	slug: string;
+	heading?: string;
+	label?: string;
+}
+
+const WIKI_LINK_PATTERN = /^\[\[([a-z0-9]+(?:-[a-z0-9]+)*)(?:#([^\]|\n]+))?(?:\|([^\]\n]+))?\]\]/;
+
+export function wikiLinkHref({ slug, heading }: WikiLink): string {
+	return `/journal/${slug}${heading ? `#${heading}` : ''}`;
+}
+
+const wikiLinkExtension = {
+	name: 'wikiLink',
+	level: 'inline' as const,
+	start(src: string) {
+		return src.indexOf('[[');
+	},
+	tokenizer(src: string) {
+		const match = src.match(WIKI_LINK_PATTERN);
+		if (match) {
+			return {
+				type: 'wikiLink',
+				raw: match[0],
+				slug: match[1],
+				heading: match[2] ? headingId(match[2]) : undefined,
+				label: match[3]?.trim(),
+			};
+		}
+		return undefined;
+	},
+	renderer(token: WikiLink) {
+		const text = token.label ?? currentLinkTitles[token.slug] ?? token.slug;
+		return `<a href="${escapeHtml(wikiLinkHref(token))}" class="wiki-link">${escapeHtml(text)}</a>`;
+	},
+};
+
 // Custom renderer for mermaid code blocks
 // Note: marked v17+ passes token objects, not individual parameters
 const renderer = {
+	heading(
+		this: { parser: { parseInline(tokens: Token[]): string } },
+		token: { tokens: Token[]; depth: number; text: string }
+	): string {
+		const html = this.parser.parseInline(token.tokens);
+		return `<h${token.depth} id="${escapeHtml(nextHeadingId(token.text))}">${html}</h${token.depth}>\n`;
+	},
 	code(token: { text: string; lang?: string }): string {
 		const { text, lang } = token;
 		if (lang === 'mermaid') {
-			// Return pre tag with mermaid class - will be rendered client-side
+			const diagram = currentDiagrams[diagramHash(text.trim())];
+			if (diagram) {
+				return `<figure class="mermaid-diagram"><img src="${escapeHtml(diagram.url)}" width="${diagram.width}" height="${diagram.height}" alt="Diagram" loading="lazy" decoding="async" /></figure>`;
+			}
+			// Not pre-rendered yet - will be rendered client-side
 			return `<pre class="mermaid">${escapeHtml(text)}</pre>`;
 		}
 		// Default code block rendering with syntax highlighting classes
@@ -81,14 +318,26 @@ function escapeHtml(text: string): string {
 
 // Configure marked with extensions
 marked.use({
-	extensions: [mathExtension],
+	extensions: [mathExtension, footnoteExtension, footnoteRefExtension, citationExtension, wikiLinkExtension],
 	renderer,
 	gfm: true,
 	breaks: false,
 });
 
-export function renderMarkdown(content: string): string {
-	return marked.parse(content) as string;
+export function renderMarkdown(content: string, options: RenderOptions = {}): string {
+	currentDiagrams = options.diagrams ?? {};
+	currentReferences = new Map((options.references ?? []).map((r) => [r.key, r]));
+	citedKeys = [];
+	currentLinkTitles = options.linkTitles ?? {};
+	nextHeadingId = createHeadingIds();
+	try {
+		return (marked.parse(content) as string) + renderReferenceList();
+	} finally {
+		currentDiagrams = {};
+		currentReferences = new Map();
+		citedKeys = [];
+		currentLinkTitles = {};
+	}
 }
 
 export { marked };
@@ -0,0 +1,10 @@
+import type { RequestHandler } from './$types.js';
+import { atomFeed, loadFeedItems } from '$lib/feed';
+
+export const prerender = true;
+
+export const GET = (async () => {
+	return new Response(atomFeed(await loadFeedItems()), {
+		headers: { 'Content-Type': 'application/atom+xml; charset=utf-8' }
+	});
+}) satisfies RequestHandler;
@@ -0,0 +1,10 @@
+import type { RequestHandler } from './$types.js';
+import { jsonFeed, loadFeedItems } from '$lib/feed';
+
+export const prerender = true;
+
+export const GET = (async () => {
+	return new Response(jsonFeed(await loadFeedItems()), {
+		headers: { 'Content-Type': 'application/feed+json; charset=utf-8' }
+	});
+}) satisfies RequestHandler;
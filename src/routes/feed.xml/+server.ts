@@ -0,0 +1,10 @@
+import type { RequestHandler } from './$types.js';
+import { loadFeedItems, rssFeed } from '$lib/feed';
+
+export const prerender = true;
+
+export const GET = (async () => {
+	return new Response(rssFeed(await loadFeedItems()), {
+		headers: { 'Content-Type': 'application/rss+xml; charset=utf-8' }
+	});
+}) satisfies RequestHandler;
@@ -3,11 +3,18 @@ import type { PageServerLoad } from './$types.js';
 import { PUBLIC_CONVEX_URL } from '$env/static/public';
 import { api } from '../../../convex/_generated/api.js';
 
+const PAGE_SIZE = 20;
+
 export const load = (async () => {
 	const client = new ConvexHttpClient(PUBLIC_CONVEX_URL);
-	const journalEntries = await client.query(api.journal.list, { publishedOnly: true });
+	const [firstPage, facets] = await Promise.all([
+		client.query(api.journal.listPage, { paginationOpts: { numItems: PAGE_SIZE, cursor: null } }),
+		client.query(api.journal.listFacets, {})
+	]);
 
 	return {
-		journalEntries
+		pageSize: PAGE_SIZE,
+		firstPage,
+		facets
 	};
 }) satisfies PageServerLoad;
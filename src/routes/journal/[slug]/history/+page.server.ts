@@ -0,0 +1,22 @@
+import { ConvexHttpClient } from 'convex/browser';
+import type { PageServerLoad, EntryGenerator } from './$types.js';
+import { PUBLIC_CONVEX_URL } from '$env/static/public';
+import { api } from '../../../../../convex/_generated/api.js';
+import { error } from '@sveltejs/kit';
+
+export const entries: EntryGenerator = async () => {
+	const client = new ConvexHttpClient(PUBLIC_CONVEX_URL);
+	const slugs = await client.query(api.journal.listSlugs, {});
+	return slugs.map((slug: string) => ({ slug }));
+};
+
+export const load = (async ({ params }) => {
+	const client = new ConvexHttpClient(PUBLIC_CONVEX_URL);
+	const history = await client.query(api.revisions.list, { slug: params.slug });
+
+	if (!history) {
+		error(404, 'Entry not found');
+	}
+
+	return { history };
+}) satisfies PageServerLoad;
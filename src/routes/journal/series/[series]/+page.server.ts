@@ -0,0 +1,23 @@
+import { ConvexHttpClient } from 'convex/browser';
+import type { PageServerLoad, EntryGenerator } from './$types.js';
+import { PUBLIC_CONVEX_URL } from '$env/static/public';
+import { api } from '../../../../../convex/_generated/api.js';
+import { error } from '@sveltejs/kit';
+
+// One landing page per series with a published part
+export const entries: EntryGenerator = async () => {
+	const client = new ConvexHttpClient(PUBLIC_CONVEX_URL);
+	const series = await client.query(api.series.list, {});
+	return series.map(({ slug }) => ({ series: slug }));
+};
+
+export const load = (async ({ params }) => {
+	const client = new ConvexHttpClient(PUBLIC_CONVEX_URL);
+	const series = await client.query(api.series.get, { slug: params.series });
+
+	if (!series) {
+		error(404, 'Series not found');
+	}
+
+	return { series };
+}) satisfies PageServerLoad;
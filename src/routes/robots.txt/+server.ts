@@ -0,0 +1,18 @@
+import type { RequestHandler } from './$types.js';
+import { ROBOTS, SITE_URL } from '$lib/site';
+
+export const prerender = true;
+
+export const GET = (() => {
+	const groups = ROBOTS.map(({ userAgent, allow = [], disallow }) =>
+		[
+			`User-agent: ${userAgent}`,
+			...allow.map((path) => `Allow: ${path}`),
+			// An empty Disallow allows everything
+			...(disallow.length > 0 ? disallow.map((path) => `Disallow: ${path}`) : ['Disallow:'])
+		].join('\n')
+	);
+	return new Response(`${groups.join('\n\n')}\n\nSitemap: ${SITE_URL}/sitemap.xml\n`, {
+		headers: { 'Content-Type': 'text/plain; charset=utf-8' }
+	});
+}) satisfies RequestHandler;
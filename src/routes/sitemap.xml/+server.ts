@@ -0,0 +1,38 @@
+import { ConvexHttpClient } from 'convex/browser';
+import type { RequestHandler } from './$types.js';
+import { PUBLIC_CONVEX_URL } from '$env/static/public';
+import { api } from '../../../convex/_generated/api.js';
+import { SITE_URL } from '$lib/site';
+
+export const prerender = true;
+
+// Indexable pages: home, the journal, every published entry and series.
+// An entry's lastmod is its last sync; a listing's is its newest entry's.
+export const GET = (async () => {
+	const client = new ConvexHttpClient(PUBLIC_CONVEX_URL);
+	const entries = await client.query(api.journal.listForSitemap, {});
+
+	const newest = (dates: string[]) => dates.reduce((a, b) => (a > b ? a : b), '') || undefined;
+	const series = new Map<string, string[]>();
+	for (const entry of entries) {
+		if (entry.seriesSlug) {
+			series.set(entry.seriesSlug, [...(series.get(entry.seriesSlug) ?? []), entry.lastModified]);
+		}
+	}
+
+	const pages: { path: string; lastModified?: string }[] = [
+		{ path: '' },
+		{ path: '/journal', lastModified: newest(entries.map((e) => e.lastModified)) },
+		...entries.map((e) => ({ path: `/journal/${e.slug}`, lastModified: e.lastModified })),
+		...[...series].map(([slug, dates]) => ({ path: `/journal/series/${slug}`, lastModified: newest(dates) }))
+	];
+
+	const urls = pages.map(
+		({ path, lastModified }) =>
+			`	<url>\n		<loc>${SITE_URL}${path}</loc>${lastModified ? `\n		<lastmod>${lastModified}</lastmod>` : ''}\n	</url>`
+	);
+	return new Response(
+		`<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${urls.join('\n')}\n</urlset>\n`,
+		{ headers: { 'Content-Type': 'application/xml; charset=utf-8' } }
+	);
+}) satisfies RequestHandler;
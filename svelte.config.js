@@ -8,7 +8,10 @@ const config = {
 		adapter: adapter({
 			pages: 'build',
 			assets: 'build',
-			fallback: undefined,
+			// Served by convex/http.ts for unknown paths; renders +error.svelte
+			fallback: '404.html',
+			// .br/.gz variants that convex/http.ts serves by Accept-Encoding
+			precompress: true,
 		}),
 		prerender: {
 			handleUnseenRoutes: 'ignore'